@@ -388,6 +388,20 @@ abstract class QmdCodeFileView extends TextFileView {
   clear(): void {
     this.setViewData('');
   }
+
+  // Put the cursor at a 0-based line / column and scroll it into view —
+  // used to jump here from a Quarto diagnostic.
+  revealLine(line: number, column = 0): void {
+    const view = this.editorView;
+    if (!view) return;
+    const docLine = view.state.doc.line(Math.min(Math.max(line + 1, 1), view.state.doc.lines));
+    const pos = Math.min(docLine.from + column, docLine.to);
+    view.dispatch({
+      selection: { anchor: pos },
+      effects: EditorView.scrollIntoView(pos, { y: 'center' }),
+    });
+    view.focus();
+  }
 }
 
 export class QmdYamlFileView extends QmdCodeFileView {
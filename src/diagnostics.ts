@@ -0,0 +1,230 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import type QmdAsMdPlugin from './main';
+import { stripAnsiCodes } from './quarto-output';
+
+// --- Quarto diagnostics ---------------------------------------------------
+//
+// Quarto reports problems as loosely structured text spread over several
+// lines, e.g. a YAML validation failure:
+//
+//   ERROR: In file paper.qmd
+//   (line 4, columns 6--8) Field "toc" has value yes, which must instead be `true` or `false`
+//   4: toc: yes
+//
+// or a failing knitr chunk:
+//
+//   Quitting from lines 12-18 [fig-plot] (paper.qmd)
+//
+// DiagnosticCollector turns that stream into entries with a file, line,
+// column and severity, so the diagnostics view can list them and jump to
+// the source. A diagnostic without a file refers to the run's own source.
+// "ERROR:"/"WARNING:"/"WARN:" prefixes decide severity, the same rule
+// logQuartoLine uses; a located "(line …)" line inherits the severity of
+// the prefixed line before it.
+
+export const QMD_DIAGNOSTICS_VIEW = 'qmd-diagnostics-view';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface QuartoDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file: string | null; // as printed by Quarto; relative to the run's working dir
+  line: number | null; // 1-based, as Quarto prints it
+  column: number | null; // 1-based
+  yamlKey: string | null; // `Field "toc"` in a YAML validation error
+}
+
+export type DiagnosticRunKind = 'preview' | 'render';
+
+export interface DiagnosticRun {
+  kind: DiagnosticRunKind;
+  sourcePath: string; // vault path of the previewed / rendered file
+  workingDir: string; // absolute cwd of the Quarto process
+  startedAt: number;
+  collector: DiagnosticCollector;
+}
+
+const SEVERITY_PREFIX_RE = /^(ERROR|WARN(?:ING)?):\s*(.*)$/;
+const PANDOC_WARNING_RE = /^\[WARNING\]\s*(.*)$/;
+const IN_FILE_RE = /^In file\s+(.+?)\s*$/;
+const LOCATION_RE = /^\(line (\d+), columns? (\d+)(?:--\d+)?\)\s*(.*)$/;
+const KNITR_QUIT_RE = /^Quitting from (?:lines (\d+)-\d+(?: \[[^\]]*\])? \((.+?)\)|(.+?):(\d+)-\d+(?: \[[^\]]*\])?)\s*$/;
+
+export class DiagnosticCollector {
+  readonly entries: QuartoDiagnostic[] = [];
+  // Index of the first entry produced by the compile in progress. A
+  // preview recompiles on every save; "Output created:" marks the end of a
+  // clean compile, and only its warnings are kept.
+  private compileStart = 0;
+  private lastSeverity: DiagnosticSeverity = 'error';
+  private currentFile: string | null = null;
+
+  // Feed one raw line. Returns true when the entry list changed.
+  handleLine(rawLine: string): boolean {
+    const line = stripAnsiCodes(rawLine).trim();
+    if (!line) return false;
+
+    if (line.includes('Output created:')) {
+      const warnings = this.entries
+        .slice(this.compileStart)
+        .filter((d) => d.severity === 'warning');
+      const changed = this.entries.length !== warnings.length;
+      this.entries.splice(0, this.entries.length, ...warnings);
+      this.compileStart = this.entries.length;
+      this.currentFile = null;
+      return changed;
+    }
+
+    const prefixed = line.match(SEVERITY_PREFIX_RE);
+    if (prefixed) {
+      this.lastSeverity = prefixed[1] === 'ERROR' ? 'error' : 'warning';
+      const inFile = prefixed[2].match(IN_FILE_RE);
+      if (inFile) {
+        // "In file X" names the file for the entry before it ("Validation
+        // of YAML front matter failed.") and the located lines after it.
+        this.currentFile = inFile[1];
+        const previous = this.entries[this.entries.length - 1];
+        if (previous && previous.file === null && this.entries.length > this.compileStart) {
+          previous.file = this.currentFile;
+          return true;
+        }
+        return false;
+      }
+      return this.add({ severity: this.lastSeverity, message: prefixed[2] || line });
+    }
+
+    const pandocWarning = line.match(PANDOC_WARNING_RE);
+    if (pandocWarning) {
+      return this.add({ severity: 'warning', message: pandocWarning[1] });
+    }
+
+    const location = line.match(LOCATION_RE);
+    if (location) {
+      const yamlKey = location[3].match(/^Field "([^"]+)"/)?.[1] ?? null;
+      return this.add({
+        severity: this.lastSeverity,
+        message: location[3] || line,
+        file: this.currentFile,
+        line: Number(location[1]),
+        column: Number(location[2]),
+        yamlKey,
+      });
+    }
+
+    const knitr = line.match(KNITR_QUIT_RE);
+    if (knitr) {
+      return this.add({
+        severity: 'error',
+        message: line,
+        file: knitr[2] ?? knitr[3] ?? null,
+        line: Number(knitr[1] ?? knitr[4]),
+      });
+    }
+
+    return false;
+  }
+
+  private add(entry: Partial<QuartoDiagnostic> & Pick<QuartoDiagnostic, 'severity' | 'message'>): boolean {
+    const diagnostic: QuartoDiagnostic = {
+      file: null,
+      line: null,
+      column: null,
+      yamlKey: null,
+      ...entry,
+    };
+    // A failing preview repeats the same block on every save — keep one.
+    const duplicate = this.entries.some(
+      (d) =>
+        d.severity === diagnostic.severity &&
+        d.message === diagnostic.message &&
+        d.file === diagnostic.file &&
+        d.line === diagnostic.line
+    );
+    if (duplicate) return false;
+    this.entries.push(diagnostic);
+    return true;
+  }
+}
+
+export class QmdDiagnosticsView extends ItemView {
+  plugin: QmdAsMdPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: QmdAsMdPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return QMD_DIAGNOSTICS_VIEW;
+  }
+
+  getDisplayText(): string {
+    return 'Quarto diagnostics';
+  }
+
+  getIcon(): string {
+    return 'alert-triangle';
+  }
+
+  async onOpen(): Promise<void> {
+    this.render();
+  }
+
+  render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('qmd-diagnostics');
+
+    // Most recent run first — that is usually the one the user is fixing.
+    const runs = Array.from(this.plugin.diagnosticRuns.values())
+      .filter((run) => run.collector.entries.length > 0)
+      .sort((a, b) => b.startedAt - a.startedAt);
+    if (runs.length === 0) {
+      container.createDiv({
+        cls: 'qmd-diagnostics-empty',
+        text: 'No Quarto errors or warnings.',
+      });
+      return;
+    }
+
+    for (const run of runs) {
+      const group = container.createDiv({ cls: 'qmd-diagnostics-group' });
+      group.createDiv({
+        cls: 'qmd-diagnostics-header',
+        text: `${run.sourcePath} (${run.kind})`,
+      });
+      for (const diagnostic of run.collector.entries) {
+        const item = group.createDiv({
+          cls: 'qmd-diagnostics-item',
+          attr: { tabindex: '0', role: 'link' },
+        });
+        item.dataset.severity = diagnostic.severity;
+        setIcon(
+          item.createSpan({ cls: 'qmd-diagnostics-icon' }),
+          diagnostic.severity === 'error' ? 'x-circle' : 'alert-triangle'
+        );
+        const body = item.createDiv({ cls: 'qmd-diagnostics-body' });
+        body.createDiv({ cls: 'qmd-diagnostics-message', text: diagnostic.message });
+        const location = [
+          diagnostic.file ?? run.sourcePath.split('/').pop(),
+          diagnostic.line !== null ? `line ${diagnostic.line}` : null,
+          diagnostic.column !== null ? `column ${diagnostic.column}` : null,
+          diagnostic.yamlKey !== null ? `YAML: ${diagnostic.yamlKey}` : null,
+        ].filter(Boolean).join(', ');
+        body.createDiv({ cls: 'qmd-diagnostics-location', text: location });
+
+        const reveal = () => {
+          void this.plugin.revealDiagnostic(run, diagnostic);
+        };
+        item.addEventListener('click', reveal);
+        item.addEventListener('keydown', (evt) => {
+          if (evt.key === 'Enter' || evt.key === ' ') {
+            evt.preventDefault();
+            reveal();
+          }
+        });
+      }
+    }
+  }
+}
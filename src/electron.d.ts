@@ -5,5 +5,7 @@
 declare module 'electron' {
   export const shell: {
     openExternal(url: string): Promise<void>;
+    // Resolves to an error message, or '' on success.
+    openPath(path: string): Promise<string>;
   };
 }
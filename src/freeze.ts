@@ -0,0 +1,92 @@
+import { App, Modal, Setting, TFile, TFolder, normalizePath } from 'obsidian';
+
+// --- Freeze directories ---------------------------------------------------
+//
+// With `execute: freeze:` a project render stores each document's
+// computational results under _freeze/ at the project root, mirroring the
+// source tree: posts/analysis.qmd keeps its results in
+// _freeze/posts/analysis/. Quarto reuses them instead of running the code
+// again, and they go stale when data or packages change outside the
+// document. Clearing the folder makes the next render execute afresh.
+
+export interface FreezeEntry {
+  path: string; // vault path of the folder to delete
+  files: number;
+}
+
+// _freeze/<dir>/<stem> for a file, _freeze for the whole project.
+export function freezeDirFor(projectRoot: string, file: TFile | null): string {
+  const freezeRoot = projectRoot ? `${projectRoot}/_freeze` : '_freeze';
+  if (!file) return normalizePath(freezeRoot);
+  const rel = projectRoot && file.path.startsWith(`${projectRoot}/`)
+    ? file.path.slice(projectRoot.length + 1)
+    : file.path;
+  return normalizePath(`${freezeRoot}/${rel.replace(/\.[^./]+$/, '')}`);
+}
+
+async function countFiles(app: App, dir: string): Promise<number> {
+  const listing = await app.vault.adapter.list(dir);
+  let count = listing.files.length;
+  for (const sub of listing.folders) count += await countFiles(app, sub);
+  return count;
+}
+
+// The entry for the folder if it exists, null otherwise. Goes through the
+// adapter: _freeze is not always in the vault index.
+export async function freezeEntry(app: App, dir: string): Promise<FreezeEntry | null> {
+  if (!(await app.vault.adapter.exists(dir))) return null;
+  return { path: dir, files: await countFiles(app, dir) };
+}
+
+// Moves the folder to the trash the user configured when Obsidian knows
+// it, deletes it through the adapter otherwise.
+export async function deleteFreezeEntry(app: App, entry: FreezeEntry): Promise<void> {
+  const folder = app.vault.getAbstractFileByPath(entry.path);
+  if (folder instanceof TFolder) {
+    await app.fileManager.trashFile(folder);
+  } else {
+    await app.vault.adapter.rmdir(entry.path, true);
+  }
+}
+
+export class ClearFreezeModal extends Modal {
+  constructor(
+    app: App,
+    private entries: FreezeEntry[],
+    private onConfirm: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Clear frozen results' });
+    contentEl.createEl('p', {
+      text: 'These folders will be deleted. The next render runs the code again.',
+      cls: 'setting-item-description',
+    });
+    const list = contentEl.createEl('ul');
+    for (const entry of this.entries) {
+      list.createEl('li', {
+        text: `${entry.path} (${entry.files} ${entry.files === 1 ? 'file' : 'files'})`,
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText('Delete')
+          .setWarning()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          }),
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,275 @@
+import { ItemView, Notice, WorkspaceLeaf, setIcon } from 'obsidian';
+import type QmdAsMdPlugin from './main';
+import { QuartoLineSeverity, quartoLineSeverity, stripAnsiCodes } from './quarto-output';
+
+// --- Quarto log -----------------------------------------------------------
+//
+// Everything Quarto prints (knitr progress, Typst warnings, the LaTeX log)
+// otherwise only reaches the developer console. QuartoLogStore keeps it per
+// run — one preview or render of one file — so the log view can show it to
+// users who never open the console, and a failed render can still be
+// inspected after its notice has gone. Only the last few runs per file are
+// kept, and each run's line count is capped: a preview left running all
+// day would otherwise grow without bound.
+
+export const QMD_LOG_VIEW = 'qmd-log-view';
+
+const MAX_LINES_PER_RUN = 5000;
+// Lines over the cap are dropped this many at a time: one splice per batch
+// instead of a shift() — which moves every line — per new line.
+const TRIM_BATCH = 500;
+
+export type QuartoLogRunKind = 'preview' | 'render';
+
+export interface QuartoLogLine {
+  text: string;
+  severity: QuartoLineSeverity;
+}
+
+export interface QuartoLogRun {
+  id: number;
+  kind: QuartoLogRunKind;
+  sourcePath: string;
+  startedAt: number;
+  running: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  lines: QuartoLogLine[];
+  droppedLines: number;
+}
+
+export class QuartoLogStore {
+  private runs: QuartoLogRun[] = [];
+  private nextId = 1;
+
+  constructor(
+    private maxRunsPerFile: () => number,
+    private onChange: () => void,
+  ) {}
+
+  // Newest first.
+  allRuns(): QuartoLogRun[] {
+    return [...this.runs].reverse();
+  }
+
+  begin(kind: QuartoLogRunKind, sourcePath: string): QuartoLogRun {
+    const run: QuartoLogRun = {
+      id: this.nextId++,
+      kind,
+      sourcePath,
+      startedAt: Date.now(),
+      running: true,
+      exitCode: null,
+      signal: null,
+      lines: [],
+      droppedLines: 0,
+    };
+    this.runs.push(run);
+    this.prune(sourcePath);
+    this.onChange();
+    return run;
+  }
+
+  append(run: QuartoLogRun, rawLine: string): void {
+    run.lines.push({ text: stripAnsiCodes(rawLine), severity: quartoLineSeverity(rawLine) });
+    if (run.lines.length >= MAX_LINES_PER_RUN + TRIM_BATCH) {
+      const excess = run.lines.length - MAX_LINES_PER_RUN;
+      run.lines.splice(0, excess);
+      run.droppedLines += excess;
+    }
+    this.onChange();
+  }
+
+  end(run: QuartoLogRun, exitCode: number | null, signal: string | null): void {
+    run.running = false;
+    run.exitCode = exitCode;
+    run.signal = signal;
+    this.onChange();
+  }
+
+  private prune(sourcePath: string): void {
+    const limit = Math.max(1, this.maxRunsPerFile());
+    const forFile = this.runs.filter((r) => r.sourcePath === sourcePath);
+    const excess = new Set(forFile.slice(0, Math.max(0, forFile.length - limit)));
+    if (excess.size > 0) {
+      this.runs = this.runs.filter((r) => !excess.has(r));
+    }
+  }
+}
+
+function droppedText(run: QuartoLogRun): string {
+  return `… ${run.droppedLines} earlier lines dropped`;
+}
+
+// Which runs there are, in order, running or not. A change means a redraw.
+function runShape(runs: QuartoLogRun[]): string {
+  return runs.map((run) => `${run.id}:${run.running ? 'running' : 'done'}`).join(',');
+}
+
+export function formatLogRun(run: QuartoLogRun): string {
+  const header = `# ${runTitle(run)}`;
+  const dropped = run.droppedLines > 0 ? [droppedText(run)] : [];
+  return [header, ...dropped, ...run.lines.map((l) => l.text)].join('\n');
+}
+
+function runStatus(run: QuartoLogRun): string {
+  if (run.running) return 'running';
+  if (run.exitCode !== null) return `exit ${run.exitCode}`;
+  return run.signal ? `terminated by ${run.signal}` : 'terminated';
+}
+
+function runTitle(run: QuartoLogRun): string {
+  const started = new Date(run.startedAt).toLocaleTimeString();
+  return `${run.kind} · ${run.sourcePath} · ${started} · ${runStatus(run)}`;
+}
+
+// The lines of an open run as drawn, so new output is appended instead of
+// the whole view being rebuilt.
+interface RenderedRun {
+  body: HTMLElement;
+  dropped: HTMLElement | null; // the "… earlier lines dropped" line
+  // droppedLines + lines.length when last drawn.
+  total: number;
+}
+
+export class QmdLogView extends ItemView {
+  plugin: QmdAsMdPlugin;
+  // Runs the user expanded or collapsed by hand, so a re-render triggered
+  // by a new line does not undo it. Unlisted runs: only the newest is open.
+  private toggled = new Map<number, boolean>();
+  // What the last full render drew: the runs, in order, with their state,
+  // and the open ones' lines.
+  private renderedShape: string | null = null;
+  private renderedRuns = new Map<number, RenderedRun>();
+
+  constructor(leaf: WorkspaceLeaf, plugin: QmdAsMdPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return QMD_LOG_VIEW;
+  }
+
+  getDisplayText(): string {
+    return 'Quarto log';
+  }
+
+  getIcon(): string {
+    return 'scroll-text';
+  }
+
+  async onOpen(): Promise<void> {
+    this.render();
+  }
+
+  private copy(text: string): void {
+    navigator.clipboard.writeText(text).then(
+      () => new Notice('Quarto log copied to clipboard'),
+      (err) => {
+        console.error('[qmd-as-md] Failed to copy Quarto log:', err);
+        new Notice('Could not copy the Quarto log.');
+      }
+    );
+  }
+
+  // Called as output streams in. While the runs are the same ones in the
+  // same state, only their new lines are added (and dropped ones removed);
+  // a run starting or ending redraws the view.
+  update(): void {
+    const runs = this.plugin.quartoLog.allRuns();
+    if (this.renderedShape !== runShape(runs)) {
+      this.render();
+      return;
+    }
+    for (const run of runs) {
+      const rendered = this.renderedRuns.get(run.id);
+      if (rendered) this.appendLines(run, rendered);
+    }
+  }
+
+  private appendLines(run: QuartoLogRun, rendered: RenderedRun): void {
+    const total = run.droppedLines + run.lines.length;
+    const added = Math.min(total - rendered.total, run.lines.length);
+    for (const line of run.lines.slice(run.lines.length - added)) {
+      this.drawLine(rendered.body, line);
+    }
+    rendered.total = total;
+    if (run.droppedLines === 0) return;
+
+    if (!rendered.dropped) {
+      rendered.dropped = rendered.body.createDiv({ cls: 'qmd-log-line' });
+      rendered.body.prepend(rendered.dropped);
+    }
+    rendered.dropped.setText(droppedText(run));
+    // Keep the DOM to the lines the store still holds.
+    let excess = rendered.body.childElementCount - 1 - run.lines.length;
+    while (excess-- > 0) rendered.dropped.nextElementSibling?.remove();
+  }
+
+  private drawLine(body: HTMLElement, line: QuartoLogLine): void {
+    const el = body.createDiv({ cls: 'qmd-log-line', text: line.text });
+    el.dataset.severity = line.severity;
+  }
+
+  render(): void {
+    const container = this.contentEl;
+    // Re-rendered on every streamed line (throttled); keep the reader's
+    // place instead of jumping back to the top.
+    const scrollTop = container.scrollTop;
+    container.empty();
+    container.addClass('qmd-log');
+
+    const runs = this.plugin.quartoLog.allRuns();
+    this.renderedShape = runShape(runs);
+    this.renderedRuns.clear();
+    if (runs.length === 0) {
+      container.createDiv({
+        cls: 'qmd-log-empty',
+        text: 'No Quarto output yet. Start a preview or render.',
+      });
+      return;
+    }
+
+    const toolbar = container.createDiv({ cls: 'qmd-log-toolbar' });
+    const copyAll = toolbar.createEl('button', { text: 'Copy all' });
+    copyAll.addEventListener('click', () => this.copy(runs.map(formatLogRun).join('\n\n')));
+
+    runs.forEach((run, index) => {
+      const details = container.createEl('details', { cls: 'qmd-log-run' });
+      const openByDefault = index === 0;
+      details.open = this.toggled.get(run.id) ?? openByDefault;
+      details.addEventListener('toggle', () => {
+        if (details.open === openByDefault) this.toggled.delete(run.id);
+        else this.toggled.set(run.id, details.open);
+      });
+      details.dataset.status = run.running ? 'running' : run.exitCode === 0 ? 'ok' : 'failed';
+
+      const summary = details.createEl('summary', { cls: 'qmd-log-summary' });
+      summary.createSpan({ cls: 'qmd-log-title', text: runTitle(run) });
+      const copyRun = summary.createEl('button', {
+        cls: 'clickable-icon qmd-log-copy',
+        attr: { 'aria-label': 'Copy this run' },
+      });
+      setIcon(copyRun, 'copy');
+      copyRun.addEventListener('click', (evt) => {
+        evt.preventDefault(); // keep the <details> from toggling
+        this.copy(formatLogRun(run));
+      });
+
+      // Lines are only built for open runs — a closed run may hold
+      // thousands of them.
+      if (!details.open) {
+        details.addEventListener('toggle', () => this.render(), { once: true });
+        return;
+      }
+      const body = details.createDiv({ cls: 'qmd-log-lines' });
+      const dropped = run.droppedLines > 0
+        ? body.createDiv({ cls: 'qmd-log-line', text: droppedText(run) })
+        : null;
+      for (const line of run.lines) this.drawLine(body, line);
+      this.renderedRuns.set(run.id, { body, dropped, total: run.droppedLines + run.lines.length });
+    });
+    container.scrollTop = scrollTop;
+  }
+}
@@ -1,6 +1,7 @@
 import {
   Plugin,
   Notice,
+  Editor,
   TFile,
   FileView,
   MarkdownView,
@@ -12,125 +13,272 @@ import {
   debounce,
   normalizePath,
 } from 'obsidian';
-import { spawn, ChildProcess } from 'child_process';
 import * as path from 'path';
 import { shell } from 'electron';
+import { EditorView } from '@codemirror/view';
 import { QMD_OUTLINE_VIEW, QmdOutlineView } from './outline';
+import {
+  QMD_DIAGNOSTICS_VIEW,
+  DiagnosticCollector,
+  DiagnosticRun,
+  DiagnosticRunKind,
+  QmdDiagnosticsView,
+  QuartoDiagnostic,
+} from './diagnostics';
 import {
   QMD_YAML_VIEW,
   QMD_LUA_VIEW,
   QmdYamlFileView,
   QmdLuaFileView,
 } from './code-view';
+import { QMD_LOG_VIEW, QmdLogView, QuartoLogStore } from './log-view';
+import { QMD_PREVIEWS_VIEW, QmdPreviewsView } from './previews-view';
 import { newQmdFromPreset } from './new-file';
-
-// --- Quarto output plumbing -----------------------------------------------
-//
-// Node's spawn-stream chunks don't align with line boundaries — a single
-// data event can contain a partial line, and a logical line can be split
-// across two events. Build a per-stream processor that buffers the
-// trailing partial line and only emits whole lines. Call .flush() on the
-// close handler to release any final partial line.
-//
-// logQuartoLine routes a single line to console by severity prefix:
-// "ERROR:" -> console.error, "WARNING:"/"WARN:" -> console.warn,
-// everything else -> console.log. Centralised so both the preview and
-// render paths stay in sync and new prefixes only need handling here.
-
-function logQuartoLine(prefix: string, line: string): void {
-  if (/^ERROR:/.test(line)) {
-    console.error(`${prefix}: ${line}`);
-  } else if (/^WARN(ING)?:/.test(line)) {
-    console.warn(`${prefix}: ${line}`);
-  } else {
-    console.log(`${prefix}: ${line}`);
-  }
-}
-
-interface LineProcessor {
-  (chunk: string): void;
-  flush(): void;
-}
-
-function makeLineProcessor(handle: (line: string) => void): LineProcessor {
-  let buffer = '';
-  const proc = ((chunk: string) => {
-    buffer += chunk;
-    const lines = buffer.split(/\r?\n/);
-    // Last element is the trailing fragment after the final newline
-    // (or the whole chunk if there was no newline at all). Keep it
-    // for the next chunk.
-    buffer = lines.pop() ?? '';
-    for (const line of lines) {
-      if (line) handle(line);
-    }
-  }) as LineProcessor;
-  proc.flush = () => {
-    if (buffer) {
-      handle(buffer);
-      buffer = '';
-    }
-  };
-  return proc;
-}
-
-const ANSI_ESCAPE_RE = new RegExp(String.fromCharCode(27) + '\\[[0-?]*[ -/]*[@-~]', 'g');
-function stripAnsiCodes(text: string): string {
-  return text.replace(ANSI_ESCAPE_RE, '');
-}
-
-function previewUrlFromLine(line: string): string | null {
-  const match = stripAnsiCodes(line).match(/Browse at\s+(https?:\/\/\S+)/);
-  return match?.[1] ?? null;
-}
+import { QuartoStatusBar } from './status-bar';
+import { ProfileSuggestModal, profileConfigFor, quartoProfilesFor } from './profiles';
+import { ParamsModal, declaredParams, paramArgs } from './params';
+import { ProjectRenderProgress } from './project-render';
+import { QuartoCheckModal, QuartoCheckReport } from './quarto-check';
+import { QuartoRunner, exitLabel } from './quarto-runner';
+import { sectionIdAt } from './section-anchor';
+import {
+  RenderHistoryEntry,
+  RenderHistoryModal,
+  addRenderHistory,
+  deleteRenderHistory,
+  renameRenderHistory,
+} from './render-history';
+import { ClearFreezeModal, FreezeEntry, deleteFreezeEntry, freezeDirFor, freezeEntry } from './freeze';
+import {
+  ProjectPreviewType,
+  projectPagePath,
+  projectPageUrl,
+  readProjectPreviewType,
+} from './project-preview';
+import {
+  OrphanedPreviewAction,
+  OrphanedPreviewsModal,
+  RecordedPreview,
+  findOrphanedPreviews,
+  killOrphanedPreviews,
+} from './orphans';
+import { EnvVarEntry, buildQuartoEnv } from './quarto-env';
+import {
+  QuartoInstall,
+  compareVersions,
+  detectQuarto,
+  quartoRequirementsFor,
+} from './quarto-install';
+import {
+  logQuartoLine,
+  stripAnsiCodes,
+} from './quarto-output';
+import {
+  expectedOutputVaultPath,
+  readProjectOutputDir,
+  resolveReportedOutput,
+  vaultPathForFullPath,
+} from './output-paths';
+import {
+  FormatSuggestModal,
+  declaredFormats,
+  frontMatterOf,
+  parseYamlBlock,
+} from './render-format';
 
 interface QmdPluginSettings {
   quartoPath: string;
   enableQmdLinking: boolean;
   quartoTypst: string;
+  quartoPython: string;
+  quartoR: string;
+  extraPathEntries: string[];
+  envVars: EnvVarEntry[];
   openPdfInObsidian: boolean;
   previewInObsidian: boolean;
+  previewWholeProject: boolean;
+  previewFollowCursor: boolean;
   previewMarkdownFiles: boolean;
   showYamlFiles: boolean;
   showLuaFiles: boolean;
   showOutline: boolean;
+  outlineShowCells: boolean;
   templatesFolder: string;
+  logRunsPerFile: number;
+  renderOnSave: boolean;
+  renderOnSaveDelaySeconds: number;
+  // Active Quarto profile per project, keyed by the project's _quarto.yml
+  // vault path. Absent = no --profile flag.
+  quartoProfiles: Record<string, string>;
+  // Last values entered in "Render with parameters…", keyed by source
+  // vault path, then by param name.
+  lastRenderParams: Record<string, Record<string, string>>;
+  // Previews running right now, so the next load can find the ones a crash
+  // left behind. Not a user setting; kept here because it is plugin data.
+  runningPreviews: RecordedPreview[];
+  orphanedPreviews: OrphanedPreviewAction;
 }
 
 type PreviewMode = 'obsidian' | 'external';
 
+// 'file' previews the source on its own; 'project' serves the whole
+// website / book / manuscript it belongs to (see project-preview.ts).
+type PreviewScope = 'file' | 'project';
+
+// A website / book / manuscript the active file can be previewed within.
+interface ProjectPreviewTarget {
+  config: TFile;
+  root: string; // vault path of the project folder, '' for the vault root
+  type: ProjectPreviewType;
+}
+
+// A running project preview: which source page is shown.
+interface ProjectPreviewState extends ProjectPreviewTarget {
+  page: string | null;
+}
+
+// Outcome of the most recent compile of a running preview, for the
+// previews panel. 'pending' until the first "Output created:" or ERROR:.
+interface PreviewCompile {
+  status: 'pending' | 'ok' | 'error';
+  at: number | null;
+  message: string | null; // the ERROR: line
+}
+
+// Registered under the source's path, or under the _quarto.yml path for a
+// project preview (as project renders are); previewFor() finds either.
 interface ActivePreview {
-  process: ChildProcess;
+  runner: QuartoRunner;
+  source: TFile; // the file the preview was started from
+  project: ProjectPreviewState | null;
   mode: PreviewMode;
+  url: string | null; // from Quarto's "Browse at" line, once seen
+  compile: PreviewCompile;
+  // The webviewer leaf showing the preview and the URL it was sent to —
+  // reused for other chapters and sections instead of opening new tabs.
+  leaf: WorkspaceLeaf | null;
+  shownUrl: string | null;
+  // The preview compiles to PDF: no HTML page with section anchors.
+  pdf: boolean;
+}
+
+// How a renderPdf call ended. 'cancelled' is a SIGTERM/SIGKILL from
+// cancelRender / cancelAllRenders / unload.
+type RenderOutcome = 'success' | 'failed' | 'cancelled';
+
+// Per-call knobs for renderPdf.
+//   background: render-on-save. No "Rendering…" / "Rendered" notices —
+//               failures still notify.
+//   extraArgs:  appended to `quarto render` after --to / --profile
+//               (e.g. `-P name:value` from renderWithParams).
+interface RenderOptions {
+  background?: boolean;
+  extraArgs?: string[];
+}
+
+// One running `quarto render`, keyed by source path in activeRenderJobs.
+// label is the human-readable target ("Typst", "LaTeX", ...) reused in the
+// cancel notice. runner is null while the render is still starting: the
+// slot is taken before the first await, so a second trigger in the
+// meantime is turned away instead of spawning a render nothing can stop.
+// Cancelling a starting render releases the slot, and the render does not
+// spawn. background marks a render-on-save render: the only kind a later
+// save or a render the user starts may replace.
+interface ActiveRender {
+  runner: QuartoRunner | null;
+  label: string;
+  startedAt: number;
+  background: boolean;
+}
+
+// What loadData / saveData hold: the settings, plus state that is not a
+// setting.
+interface PluginData extends QmdPluginSettings {
+  renderHistory: Record<string, RenderHistoryEntry[]>;
 }
 
 const DEFAULT_SETTINGS: QmdPluginSettings = {
   quartoPath: 'quarto',
   enableQmdLinking: true,
   quartoTypst: '',
+  quartoPython: '',
+  quartoR: '',
+  extraPathEntries: [],
+  envVars: [],
   openPdfInObsidian: false,
   previewInObsidian: true,
+  previewWholeProject: false,
+  previewFollowCursor: false,
   previewMarkdownFiles: false,
   showYamlFiles: false,
   showLuaFiles: false,
   showOutline: false,
+  outlineShowCells: true,
   templatesFolder: '',
+  logRunsPerFile: 5,
+  renderOnSave: false,
+  renderOnSaveDelaySeconds: 2,
+  quartoProfiles: {},
+  lastRenderParams: {},
+  runningPreviews: [],
+  orphanedPreviews: 'ask',
 };
 
 export default class QmdAsMdPlugin extends Plugin {
   settings: QmdPluginSettings;
   activePreviewProcesses: Map<string, ActivePreview> = new Map();
+  // Previews between the registry check and the spawn, keyed like
+  // activePreviewProcesses, with a token per start. Taken before the first
+  // await so a quick second toggle cannot start a second server the
+  // registry would lose track of; stopping all previews clears it, and a
+  // start whose token is gone does not spawn.
+  private startingPreviews: Map<string, object> = new Map();
+  activeRenderJobs: Map<string, ActiveRender> = new Map();
+  // The running `quarto check`, if any.
+  private quartoCheck: QuartoRunner | null = null;
+  // Past renders per source vault path, newest first (render-history.ts).
+  // Stored next to the settings in plugin data, under its own key, and
+  // written at most every few seconds — render-on-save can finish a render
+  // on every save.
+  renderHistory: Record<string, RenderHistoryEntry[]> = {};
+  private saveRenderHistory = debounce(() => void this.saveSettings(), 5000, false);
+  // Latest preview / render diagnostics per source path, shown by
+  // QmdDiagnosticsView.
+  diagnosticRuns: Map<string, DiagnosticRun> = new Map();
+  // Full Quarto output per run, for QmdLogView. Views are refreshed at most
+  // every 200 ms — a knitr run can print hundreds of lines a second.
+  quartoLog = new QuartoLogStore(
+    () => this.settings.logRunsPerFile,
+    debounce(() => this.refreshLogViews(), 200, false)
+  );
   // The .qmd file the outline should describe. Tracked separately from the
   // active leaf: clicking inside the outline sidebar makes *it* the active
   // leaf, so the outline must remember the last real .qmd rather than ask
   // "what is active now?" each render.
   lastActiveQuartoFile: TFile | null = null;
+  // Pending render-on-save timers, keyed by source path. Each save restarts
+  // the file's timer, so a burst of autosaves renders once it settles.
+  private renderOnSaveTimers: Map<string, number> = new Map();
+  // Most recent Quarto error line / produced output per source path, for
+  // the status bar. An error is cleared by the next successful compile.
+  lastQuartoErrors: Map<string, string> = new Map();
+  lastQuartoOutputs: Map<string, string> = new Map();
+  statusBar: QuartoStatusBar | null = null;
+  // The Quarto binary detectQuarto found for the current "Quarto path"
+  // setting, or null when none answered `--version`. quartoDetection is the
+  // in-flight (or last) probe; spawn sites await it so a command run right
+  // after startup does not race the detection.
+  quartoInstall: QuartoInstall | null = null;
+  quartoDetection: Promise<QuartoInstall | null> = Promise.resolve(null);
 
   async onload() {
     try {
       await this.loadSettings();
 
       this.registerView(QMD_OUTLINE_VIEW, (leaf) => new QmdOutlineView(leaf, this));
+      this.registerView(QMD_DIAGNOSTICS_VIEW, (leaf) => new QmdDiagnosticsView(leaf, this));
+      this.registerView(QMD_LOG_VIEW, (leaf) => new QmdLogView(leaf, this));
+      this.registerView(QMD_PREVIEWS_VIEW, (leaf) => new QmdPreviewsView(leaf, this));
       this.registerView(QMD_YAML_VIEW, (leaf) => new QmdYamlFileView(leaf));
       this.registerView(QMD_LUA_VIEW, (leaf) => new QmdLuaFileView(leaf));
 
@@ -145,6 +293,16 @@ export default class QmdAsMdPlugin extends Plugin {
       }
 
       this.addSettingTab(new QmdSettingTab(this.app, this));
+      void this.detectQuartoInstall();
+      // Taken before any preview of this session can add its own record.
+      const leftoverPreviews = this.settings.runningPreviews;
+      this.settings.runningPreviews = [];
+      this.app.workspace.onLayoutReady(() => void this.cleanUpOrphanedPreviews(leftoverPreviews));
+
+      this.statusBar = new QuartoStatusBar(this, this.addStatusBarItem());
+      this.statusBar.update();
+      // Keeps the render timer ticking; cheap, update() only reads maps.
+      this.registerInterval(window.setInterval(() => this.refreshStatusBar(), 1000));
 
       this.addRibbonIcon('eye', 'Toggle Quarto preview', async () => {
         const file = this.getActiveQuartoCommandFile();
@@ -178,6 +336,45 @@ export default class QmdAsMdPlugin extends Plugin {
         },
       });
 
+      this.addCommand({
+        id: 'toggle-quarto-project-preview',
+        name: 'Toggle Quarto project preview',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (!file) return;
+          if (!(await this.projectPreviewTargetFor(file))) {
+            new Notice('Project previews need a _quarto.yml with project type website, book or manuscript.');
+            return;
+          }
+          await this.togglePreview(file, this.defaultPreviewMode(), 'project');
+        },
+      });
+
+      this.addCommand({
+        id: 'reveal-section-in-quarto-preview',
+        name: 'Reveal current section in Quarto preview',
+        icon: 'locate',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+          if (file && editor) await this.revealSectionInPreview(file, editor);
+        },
+      });
+
+      this.addCommand({
+        id: 'toggle-quarto-preview-follow-cursor',
+        name: 'Toggle Quarto preview following the cursor',
+        callback: async () => {
+          this.settings.previewFollowCursor = !this.settings.previewFollowCursor;
+          await this.saveSettings();
+          new Notice(
+            this.settings.previewFollowCursor
+              ? 'Quarto preview follows the cursor'
+              : 'Quarto preview no longer follows the cursor'
+          );
+        },
+      });
+
       this.addRibbonIcon('file-output', 'Render Quarto to PDF', async () => {
         const file = this.getActiveQuartoCommandFile();
         if (file) await this.renderPdf(file);
@@ -186,6 +383,93 @@ export default class QmdAsMdPlugin extends Plugin {
       this.registerRenderCommand('render-quarto-pdf', 'Render Quarto (use format defined in YAML)');
       this.registerRenderCommand('render-quarto-pdf-typst', 'Render Quarto to PDF (Typst engine)', 'typst');
       this.registerRenderCommand('render-quarto-pdf-latex', 'Render Quarto to PDF (LaTeX engine)', 'pdf');
+      // Stale knitr / Jupyter caches and frozen results.
+      this.registerRenderCommand(
+        'render-quarto-cache-refresh',
+        'Render Quarto refreshing the cache',
+        undefined,
+        { extraArgs: ['--cache-refresh'] }
+      );
+      this.registerRenderCommand(
+        'render-quarto-re-execute',
+        'Render Quarto re-executing all code',
+        undefined,
+        { extraArgs: ['--execute', '--no-cache'] }
+      );
+
+      this.addCommand({
+        id: 'clear-quarto-freeze',
+        name: 'Clear Quarto frozen results for current file',
+        icon: 'snowflake',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.clearFreeze(file, false);
+        },
+      });
+
+      this.addCommand({
+        id: 'clear-quarto-project-freeze',
+        name: 'Clear Quarto frozen results for project',
+        icon: 'snowflake',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.clearFreeze(file, true);
+        },
+      });
+
+      this.addCommand({
+        id: 'render-quarto-to-format',
+        name: 'Render Quarto to…',
+        icon: 'file-output',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.pickFormatAndRender(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'render-quarto-with-params',
+        name: 'Render Quarto with parameters…',
+        icon: 'sliders-horizontal',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.renderWithParams(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'render-quarto-project',
+        name: 'Render Quarto project',
+        icon: 'folder-output',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.renderProject(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'switch-quarto-profile',
+        name: 'Switch Quarto profile',
+        callback: async () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) await this.switchProfile(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'cancel-quarto-render',
+        name: 'Cancel Quarto render for current file',
+        callback: () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) this.cancelRender(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'cancel-all-quarto-renders',
+        name: 'Cancel all Quarto renders',
+        callback: () => this.cancelAllRenders(),
+      });
 
       this.addCommand({
         id: 'open-quarto-outline',
@@ -193,6 +477,48 @@ export default class QmdAsMdPlugin extends Plugin {
         callback: () => this.activateOutlineView(),
       });
 
+      this.addCommand({
+        id: 'open-quarto-diagnostics',
+        name: 'Open Quarto diagnostics',
+        callback: () => this.activateDiagnosticsView(),
+      });
+
+      this.addCommand({
+        id: 'show-quarto-render-history',
+        name: 'Show Quarto render history',
+        icon: 'history',
+        callback: () => {
+          const file = this.getActiveQuartoCommandFile();
+          if (file) this.showRenderHistory(file);
+        },
+      });
+
+      this.addCommand({
+        id: 'open-quarto-log',
+        name: 'Open Quarto log',
+        callback: () => this.activateLogView(),
+      });
+
+      this.addCommand({
+        id: 'open-quarto-previews',
+        name: 'Open Quarto previews',
+        callback: () => this.activatePreviewsView(),
+      });
+
+      this.addCommand({
+        id: 'stop-all-quarto-previews',
+        name: 'Stop all Quarto previews',
+        icon: 'square',
+        callback: () => this.stopAllPreviews(),
+      });
+
+      this.addCommand({
+        id: 'check-quarto-installation',
+        name: 'Check Quarto installation',
+        icon: 'stethoscope',
+        callback: () => this.checkQuartoInstallation(),
+      });
+
       this.addCommand({
         id: 'new-quarto-file-from-preset',
         name: 'New Quarto file from preset',
@@ -205,9 +531,52 @@ export default class QmdAsMdPlugin extends Plugin {
       const refresh = debounce(() => {
         this.trackActiveQuartoFile();
         this.refreshOutlineViews();
+        this.refreshStatusBar();
       }, 250, true);
       this.registerEvent(this.app.workspace.on('active-leaf-change', refresh));
       this.registerEvent(this.app.workspace.on('editor-change', refresh));
+      this.registerEvent(
+        this.app.workspace.on('file-open', (file) => this.followProjectPreview(file))
+      );
+
+      // Follow-cursor mode: a cursor move, not only an edit, re-targets the
+      // in-app preview once the cursor settles.
+      const followCursor = debounce(() => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (view?.file) void this.revealSectionInPreview(view.file, view.editor, true);
+      }, 400, true);
+      // The outline highlights the section holding the cursor; cheap, so a
+      // shorter delay than the preview.
+      const highlightOutline = debounce(() => this.highlightOutlineCursor(), 150, true);
+      this.registerEditorExtension(
+        EditorView.updateListener.of((update) => {
+          if (update.selectionSet) highlightOutline();
+          if (this.settings.previewFollowCursor && (update.selectionSet || update.docChanged)) {
+            followCursor();
+          }
+        })
+      );
+
+      this.registerEvent(
+        this.app.vault.on('modify', (file) => {
+          if (file instanceof TFile) this.scheduleRenderOnSave(file);
+        })
+      );
+      // Render history follows its file; a deleted file's history goes.
+      this.registerEvent(
+        this.app.vault.on('rename', (file, oldPath) => {
+          if (renameRenderHistory(this.renderHistory, oldPath, file.path)) this.saveRenderHistory();
+        })
+      );
+      this.registerEvent(
+        this.app.vault.on('delete', (file) => {
+          if (deleteRenderHistory(this.renderHistory, file.path)) this.saveRenderHistory();
+        })
+      );
+      this.register(() => {
+        this.renderOnSaveTimers.forEach((timer) => window.clearTimeout(timer));
+        this.renderOnSaveTimers.clear();
+      });
 
       // Opt-in: only auto-open the outline when the user enabled it. The
       // command above always works regardless of this setting.
@@ -222,15 +591,33 @@ export default class QmdAsMdPlugin extends Plugin {
 
   onunload() {
     this.stopAllPreviews();
+    this.cancelAllRenders();
+    this.quartoCheck?.stop();
+    this.quartoCheck = null;
+    // Stopped above; nothing for the next load to clean up.
+    this.settings.runningPreviews = [];
+    // This save also covers a pending render history write.
+    this.saveRenderHistory.cancel();
+    void this.saveSettings();
   }
 
   async loadSettings() {
-    const loaded = (await this.loadData()) as Partial<QmdPluginSettings> | null;
+    const { renderHistory, ...loaded } = ((await this.loadData()) ?? {}) as Partial<PluginData>;
+    this.renderHistory = { ...renderHistory };
     this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded);
+    // Object.assign is shallow — give each load its own map so mutations
+    // never touch DEFAULT_SETTINGS.
+    this.settings.quartoProfiles = { ...this.settings.quartoProfiles };
+    this.settings.lastRenderParams = { ...this.settings.lastRenderParams };
+    this.settings.extraPathEntries = [...this.settings.extraPathEntries];
+    this.settings.envVars = this.settings.envVars.map((entry) => ({ ...entry }));
+    this.settings.runningPreviews = [...this.settings.runningPreviews];
   }
 
+  // Writes all plugin data: the settings and the render history.
   async saveSettings() {
-    await this.saveData(this.settings);
+    const data: PluginData = { ...this.settings, renderHistory: this.renderHistory };
+    await this.saveData(data);
   }
 
   isQuartoFile(file: TFile): boolean {
@@ -241,19 +628,28 @@ export default class QmdAsMdPlugin extends Plugin {
     return file.extension === 'md';
   }
 
-  hasQuartoProjectConfigInPath(file: TFile): boolean {
+  // Nearest _quarto.yml in the file's folder or an ancestor up to the vault
+  // root. Its folder is the Quarto project root.
+  quartoProjectConfigFor(file: TFile): TFile | null {
     let dir = file.parent?.path ?? '';
+    if (dir === '/') dir = '';
     while (true) {
-      const configPath = normalizePath(dir ? `${dir}/_quarto.yml` : '_quarto.yml');
-      if (this.app.vault.getAbstractFileByPath(configPath) instanceof TFile) {
-        return true;
+      const config = this.app.vault.getAbstractFileByPath(
+        normalizePath(dir ? `${dir}/_quarto.yml` : '_quarto.yml')
+      );
+      if (config instanceof TFile) {
+        return config;
       }
-      if (!dir) return false;
+      if (!dir) return null;
       const slash = dir.lastIndexOf('/');
       dir = slash === -1 ? '' : dir.slice(0, slash);
     }
   }
 
+  hasQuartoProjectConfigInPath(file: TFile): boolean {
+    return this.quartoProjectConfigFor(file) !== null;
+  }
+
   getActiveQuartoCommandFile(): TFile | null {
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
     const file = activeView?.file;
@@ -299,8 +695,176 @@ export default class QmdAsMdPlugin extends Plugin {
     return null;
   }
 
-  pdfPathFor(file: TFile): string {
-    return file.path.replace(/\.(qmd|md)$/i, '.pdf');
+  // Probe for Quarto under the current "Quarto path" setting. Runs on load
+  // and whenever the setting changes.
+  detectQuartoInstall(): Promise<QuartoInstall | null> {
+    const configured = this.settings.quartoPath;
+    const detection = detectQuarto(configured, this.quartoEnv()).then((install) => {
+      // A newer probe (the user kept typing) owns the result.
+      if (this.quartoDetection !== detection) return install;
+      this.quartoInstall = install;
+      if (!install) {
+        console.warn(`[qmd-as-md] No working Quarto found for '${configured}'.`);
+      }
+      return install;
+    });
+    this.quartoDetection = detection;
+    return detection;
+  }
+
+  // The executable every spawn site runs: the detected binary, or the raw
+  // setting when detection found nothing (the spawn error then explains).
+  quartoBinary(): string {
+    return this.quartoInstall?.path ?? this.settings.quartoPath;
+  }
+
+  // Environment for every spawned `quarto`, from the Environment settings.
+  quartoEnv(): NodeJS.ProcessEnv {
+    return buildQuartoEnv(this.settings);
+  }
+
+  // False (with a notice) when the detected Quarto is too old for what
+  // this run needs. An undetected version lets the run go ahead — Quarto's
+  // own error is still better than guessing.
+  async checkQuartoRequirements(file: TFile, toFormat?: string): Promise<boolean> {
+    const install = await this.quartoDetection;
+    if (!install) return true;
+    const requirements = await quartoRequirementsFor(
+      this.app,
+      file,
+      this.quartoProjectConfigFor(file),
+      toFormat
+    );
+    const unmet = requirements.filter((r) => compareVersions(install.version, r.minVersion) < 0);
+    if (unmet.length === 0) return true;
+    new Notice(
+      unmet.map((r) => `${r.feature} needs Quarto ${r.minVersion} or newer.`).join(' ') +
+        ` Found Quarto ${install.version} at ${install.path}.`
+    );
+    return false;
+  }
+
+  // "Check Quarto installation": run `quarto check` with the same binary
+  // and environment as previews and renders, then show the parsed report.
+  // The check renders small test documents, so it can take a while; it is
+  // stopped after a few minutes rather than left hanging. One check at a
+  // time; unloading the plugin stops it.
+  checkQuartoInstallation(): void {
+    if (this.quartoCheck) {
+      new Notice('A Quarto installation check is already running.');
+      return;
+    }
+    const notice = new Notice('Checking Quarto installation…', 0);
+    const report = new QuartoCheckReport();
+    const rawLines: string[] = [];
+    const handleLine = (line: string) => {
+      const clean = stripAnsiCodes(line);
+      rawLines.push(clean);
+      report.handleLine(clean);
+    };
+    const runner = new QuartoRunner({
+      binary: this.quartoBinary(),
+      args: ['check'],
+      env: this.quartoEnv(),
+    });
+    this.quartoCheck = runner;
+    const timeout = window.setTimeout(() => runner.stop(), 180_000);
+    runner.on('line', handleLine);
+    runner.on('exit', (exit) => {
+      window.clearTimeout(timeout);
+      notice.hide();
+      // Stopped by onunload: no report.
+      if (this.quartoCheck !== runner) return;
+      this.quartoCheck = null;
+      if (exit.spawnError) {
+        this.notifySpawnError('check', exit.spawnError);
+        return;
+      }
+      new QuartoCheckModal(this.app, report, rawLines.join('\n'), exit.code).open();
+    });
+  }
+
+  activeProfileFor(file: TFile): string | null {
+    const config = this.quartoProjectConfigFor(file);
+    return config ? this.settings.quartoProfiles[config.path] ?? null : null;
+  }
+
+  // Extra arguments for every spawned `quarto` command on this file.
+  profileArgsFor(file: TFile): string[] {
+    const profile = this.activeProfileFor(file);
+    return profile ? ['--profile', profile] : [];
+  }
+
+  // Pick the active profile for the file's project. Running previews of
+  // files in that project are restarted so they pick up the new profile.
+  async switchProfile(file: TFile): Promise<void> {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) {
+      new Notice('Quarto profiles need a _quarto.yml in this file folder or an ancestor.');
+      return;
+    }
+    const profiles = quartoProfilesFor(config);
+    if (profiles.length === 0) {
+      new Notice(`No _quarto-<profile>.yml files next to ${config.path}.`);
+      return;
+    }
+    const current = this.settings.quartoProfiles[config.path] ?? null;
+    new ProfileSuggestModal(this.app, profiles, current, (profile) => {
+      if (profile !== current) void this.applyProfile(config, profile);
+    }).open();
+  }
+
+  private async applyProfile(config: TFile, profile: string | null): Promise<void> {
+    if (profile) {
+      this.settings.quartoProfiles[config.path] = profile;
+    } else {
+      delete this.settings.quartoProfiles[config.path];
+    }
+    await this.saveSettings();
+    this.refreshStatusBar();
+    new Notice(profile ? `Quarto profile: ${profile}` : 'Quarto profile cleared');
+
+    for (const preview of Array.from(this.activePreviewProcesses.values())) {
+      if (this.quartoProjectConfigFor(preview.source) === config) {
+        await this.restartPreview(preview.source);
+      }
+    }
+  }
+
+  // Where the rendered PDF is expected before Quarto reports it: next to
+  // the source, or under the project's output-dir when _quarto.yml sets one.
+  async pdfPathFor(file: TFile): Promise<string> {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) return expectedOutputVaultPath(file, 'pdf', null, null);
+    const profile = this.activeProfileFor(file);
+    const outputDir = await readProjectOutputDir(
+      this.app,
+      config,
+      profile ? profileConfigFor(config, profile) : null
+    );
+    const projectRoot = config.parent && config.parent.path !== '/' ? config.parent.path : '';
+    return expectedOutputVaultPath(file, 'pdf', projectRoot, outputDir);
+  }
+
+  // Absolute directory of the file's Quarto project, or null outside one.
+  // Used as the fallback base for relative "Output created:" paths.
+  projectDirFor(file: TFile): string | null {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) return null;
+    const adapter = this.app.vault.adapter;
+    return adapter instanceof FileSystemAdapter ? path.dirname(adapter.getFullPath(config.path)) : null;
+  }
+
+  // Map the path from an "Output created:" line into the vault. Null when
+  // the artefact lies outside the vault (absolute output-dir elsewhere).
+  outputVaultPath(reported: string, workingDir: string, projectDir: string | null): string | null {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) return null;
+    const fullPath = resolveReportedOutput(
+      reported,
+      projectDir && projectDir !== workingDir ? [workingDir, projectDir] : [workingDir]
+    );
+    return vaultPathForFullPath(adapter.getBasePath(), fullPath);
   }
 
   // Pull the TFile a leaf currently shows, without resorting to
@@ -356,9 +920,20 @@ export default class QmdAsMdPlugin extends Plugin {
     }
   }
 
-  async openPreviewUrl(url: string, mode: PreviewMode) {
+  // Resolves with the webviewer leaf showing the URL, if any. Passing that
+  // leaf back in navigates it in place (project previews switching pages)
+  // instead of opening another tab.
+  async openPreviewUrl(
+    url: string,
+    mode: PreviewMode,
+    reuse: WorkspaceLeaf | null = null
+  ): Promise<WorkspaceLeaf | null> {
     console.log('[qmd-as-md][diag] openPreviewUrl called. url:', url, 'mode:', mode);
-    new Notice(`Preview available at ${url}`);
+    const reusable =
+      mode === 'obsidian' && reuse?.parent != null && reuse.view.getViewType() === 'webviewer'
+        ? reuse
+        : null;
+    if (!reusable) new Notice(`Preview available at ${url}`);
 
     if (mode === 'external') {
       // Quarto is launched with --no-browser in every mode; this opens the
@@ -370,7 +945,7 @@ export default class QmdAsMdPlugin extends Plugin {
         console.error('[qmd-as-md] Failed to open external preview:', err);
         new Notice(`Could not open external browser. Preview URL: ${url}`, 10000);
       }
-      return;
+      return null;
     }
 
     // The "Web viewer" core plugin (Obsidian 1.8+) registers the
@@ -401,10 +976,15 @@ export default class QmdAsMdPlugin extends Plugin {
         url
       );
       void shell.openExternal(url);
-      return;
+      return null;
     }
 
     try {
+      if (reusable) {
+        // Navigate in the background: the user just opened the source.
+        await reusable.setViewState({ type: 'webviewer', active: false, state: { url } });
+        return reusable;
+      }
       const leaf = this.app.workspace.getLeaf('tab');
       await leaf.setViewState({
         type: 'webviewer',
@@ -412,27 +992,123 @@ export default class QmdAsMdPlugin extends Plugin {
         state: { url },
       });
       await this.app.workspace.revealLeaf(leaf);
+      return leaf;
     } catch (err) {
       console.error('[qmd-as-md] Failed to open preview in webviewer:', err);
       new Notice(
         "Could not open preview in Obsidian's web viewer. Falling back to external browser."
       );
       void shell.openExternal(url);
+      return null;
     }
   }
 
-  registerRenderCommand(id: string, name: string, toFormat?: 'pdf' | 'typst') {
+  registerRenderCommand(id: string, name: string, toFormat?: string, options?: RenderOptions) {
     this.addCommand({
       id,
       name,
       icon: 'file-output',
       callback: async () => {
         const file = this.getActiveQuartoCommandFile();
-        if (file) await this.renderPdf(file, toFormat);
+        if (file) await this.renderPdf(file, toFormat, options);
       },
     });
   }
 
+  // Delete the file's folder under the project's _freeze/ (or all of
+  // _freeze/) after confirming, so the next render executes the code again.
+  async clearFreeze(file: TFile, wholeProject: boolean) {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) {
+      new Notice("Frozen results belong to Quarto projects; no _quarto.yml found in this file's folder or an ancestor.");
+      return;
+    }
+    if (wholeProject) {
+      // Any render in the project may be writing into _freeze.
+      if (this.projectHasRenderJob(config)) {
+        new Notice('A Quarto render is running in this project. Wait for it or cancel it first.');
+        return;
+      }
+    } else if (this.renderJobFor(file)) {
+      new Notice('A Quarto render is running for this file. Wait for it or cancel it first.');
+      return;
+    }
+    const projectRoot = config.parent && config.parent.path !== '/' ? config.parent.path : '';
+    const dir = freezeDirFor(projectRoot, wholeProject ? null : file);
+    const entry = await freezeEntry(this.app, dir);
+    if (!entry) {
+      new Notice(`No frozen results to clear: ${dir} does not exist.`);
+      return;
+    }
+    new ClearFreezeModal(this.app, [entry], () => void this.deleteFreeze([entry])).open();
+  }
+
+  private async deleteFreeze(entries: FreezeEntry[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        await deleteFreezeEntry(this.app, entry);
+      } catch (err) {
+        console.error(`[qmd-as-md] Failed to delete ${entry.path}:`, err);
+        new Notice(`Could not delete ${entry.path}. Check the developer console for details.`);
+        return;
+      }
+    }
+    new Notice(
+      entries.length === 1 ? `Deleted ${entries[0].path}.` : `Deleted ${entries.length} folders.`
+    );
+  }
+
+  // "Render Quarto to…": offer every format declared in the document's
+  // front matter and the project's _quarto.yml, then render the choice.
+  async pickFormatAndRender(file: TFile) {
+    const formats = await declaredFormats(this.app, file, this.quartoProjectConfigFor(file));
+    if (formats.length === 0) {
+      new Notice(`No format: declared in ${file.name} or its _quarto.yml.`);
+      return;
+    }
+    new FormatSuggestModal(this.app, formats, (choice) => {
+      if (choice.kind === 'format') {
+        void this.renderPdf(file, choice.format);
+      } else {
+        void this.renderAllFormats(file, choice.formats);
+      }
+    }).open();
+  }
+
+  // One render per format, strictly in turn — parallel renders of the same
+  // source would be rejected by the job registry anyway. A cancel stops the
+  // remaining formats too.
+  async renderAllFormats(file: TFile, formats: string[]) {
+    const failed: string[] = [];
+    for (const format of formats) {
+      const outcome = await this.renderPdf(file, format);
+      if (outcome === 'cancelled') return;
+      if (outcome === 'failed') failed.push(format);
+    }
+    new Notice(
+      failed.length === 0
+        ? `Rendered all formats: ${formats.join(', ')}`
+        : `Rendered ${formats.length - failed.length} of ${formats.length} formats. Failed: ${failed.join(', ')}`
+    );
+  }
+
+  // "Render Quarto with parameters…": prompt for the document's declared
+  // params (pre-filled with the values used last time) and pass them as
+  // `-P name:value`.
+  async renderWithParams(file: TFile) {
+    const params = declaredParams(await this.app.vault.cachedRead(file));
+    if (params.length === 0) {
+      new Notice(`No params: declared in ${file.name}.`);
+      return;
+    }
+    const remembered = this.settings.lastRenderParams[file.path] ?? {};
+    new ParamsModal(this.app, file.name, params, remembered, (values) => {
+      this.settings.lastRenderParams[file.path] = values;
+      void this.saveSettings();
+      void this.renderPdf(file, undefined, { extraArgs: paramArgs(values) });
+    }).open();
+  }
+
   registerQmdExtension() {
     this.registerExtensions(['qmd'], 'markdown');
   }
@@ -481,6 +1157,15 @@ export default class QmdAsMdPlugin extends Plugin {
     }
   }
 
+  // Move the cursor highlight in every open outline view.
+  highlightOutlineCursor(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(QMD_OUTLINE_VIEW)) {
+      if (leaf.view instanceof QmdOutlineView) {
+        leaf.view.highlightCursor();
+      }
+    }
+  }
+
   // Close any open outline views — used when the user turns the setting off.
   detachOutlineViews(): void {
     for (const leaf of this.app.workspace.getLeavesOfType(QMD_OUTLINE_VIEW)) {
@@ -488,30 +1173,193 @@ export default class QmdAsMdPlugin extends Plugin {
     }
   }
 
+  // Open the diagnostics panel in the right sidebar, next to the outline,
+  // reusing an existing leaf if one is already open.
+  async activateDiagnosticsView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(QMD_DIAGNOSTICS_VIEW)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf?.setViewState({ type: QMD_DIAGNOSTICS_VIEW, active: true });
+    }
+    if (leaf) await workspace.revealLeaf(leaf);
+    this.refreshDiagnosticsViews();
+  }
+
+  refreshDiagnosticsViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(QMD_DIAGNOSTICS_VIEW)) {
+      if (leaf.view instanceof QmdDiagnosticsView) {
+        leaf.view.render();
+      }
+    }
+  }
+
+  async activatePreviewsView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(QMD_PREVIEWS_VIEW)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf?.setViewState({ type: QMD_PREVIEWS_VIEW, active: true });
+    }
+    if (leaf) await workspace.revealLeaf(leaf);
+    this.refreshPreviewsViews();
+  }
+
+  refreshPreviewsViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(QMD_PREVIEWS_VIEW)) {
+      if (leaf.view instanceof QmdPreviewsView) {
+        leaf.view.render();
+      }
+    }
+  }
+
+  // Focus the editor already showing this file, or open it.
+  async revealSourceFile(file: TFile): Promise<void> {
+    const existing = this.app.workspace
+      .getLeavesOfType('markdown')
+      .find((l) => this.leafFile(l)?.path === file.path);
+    const leaf = existing ?? this.app.workspace.getLeaf(false);
+    if (!existing) await leaf.openFile(file);
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+  }
+
+  // The log is wide and long — open it as a tab in the main area rather
+  // than squeezing it into a sidebar.
+  async activateLogView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(QMD_LOG_VIEW)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({ type: QMD_LOG_VIEW, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+    this.refreshLogViews();
+  }
+
+  refreshLogViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(QMD_LOG_VIEW)) {
+      if (leaf.view instanceof QmdLogView) {
+        leaf.view.update();
+      }
+    }
+  }
+
+  // Start collecting diagnostics for a new preview / render of a file. The
+  // previous run's entries for that file are dropped — they describe a
+  // source that has since been recompiled.
+  beginDiagnosticRun(file: TFile, kind: DiagnosticRunKind, workingDir: string): DiagnosticCollector {
+    const collector = new DiagnosticCollector();
+    this.diagnosticRuns.set(file.path, {
+      kind,
+      sourcePath: file.path,
+      workingDir,
+      startedAt: Date.now(),
+      collector,
+    });
+    this.refreshDiagnosticsViews();
+    return collector;
+  }
+
+  // Jump to the file and position a diagnostic points at: the Markdown
+  // editor for .qmd / .md, the YAML view for _quarto.yml and friends.
+  async revealDiagnostic(run: DiagnosticRun, diagnostic: QuartoDiagnostic): Promise<void> {
+    let vaultPath: string | null = run.sourcePath;
+    if (diagnostic.file) {
+      const adapter = this.app.vault.adapter;
+      vaultPath = adapter instanceof FileSystemAdapter
+        ? vaultPathForFullPath(adapter.getBasePath(), path.resolve(run.workingDir, diagnostic.file))
+        : null;
+    }
+    const target = vaultPath ? this.app.vault.getAbstractFileByPath(vaultPath) : null;
+    if (!(target instanceof TFile)) {
+      new Notice(`Cannot open ${diagnostic.file ?? run.sourcePath} from the vault.`);
+      return;
+    }
+    const line = Math.max((diagnostic.line ?? 1) - 1, 0);
+    const ch = Math.max((diagnostic.column ?? 1) - 1, 0);
+
+    const isYaml = target.extension === 'yml' || target.extension === 'yaml';
+    if (isYaml && !this.settings.showYamlFiles) {
+      new Notice(`Turn on "Show YAML files" to jump into ${target.name} (line ${line + 1}).`);
+      return;
+    }
+
+    const existing = this.app.workspace
+      .getLeavesOfType(isYaml ? QMD_YAML_VIEW : 'markdown')
+      .find((l) => this.leafFile(l)?.path === target.path);
+    const leaf = existing ?? this.app.workspace.getLeaf(false);
+    if (!existing) await leaf.openFile(target);
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+
+    if (leaf.view instanceof QmdYamlFileView) {
+      leaf.view.revealLine(line, ch);
+    } else if (leaf.view instanceof MarkdownView) {
+      const pos = { line, ch };
+      leaf.view.editor.setCursor(pos);
+      leaf.view.editor.scrollIntoView({ from: pos, to: pos }, true);
+      leaf.view.editor.focus();
+    }
+  }
+
   private defaultPreviewMode(): PreviewMode {
     return this.settings.previewInObsidian ? 'obsidian' : 'external';
   }
 
-  async togglePreview(file: TFile, mode: PreviewMode = this.defaultPreviewMode()) {
-    const activePreview = this.activePreviewProcesses.get(file.path);
-    if (activePreview?.mode === mode) {
+  private defaultPreviewScope(): PreviewScope {
+    return this.settings.previewWholeProject ? 'project' : 'file';
+  }
+
+  async togglePreview(file: TFile, mode: PreviewMode = this.defaultPreviewMode(), scope?: PreviewScope) {
+    const activePreview = this.previewFor(file);
+    const sameScope = scope === undefined || (activePreview?.project ? 'project' : 'file') === scope;
+    if (activePreview?.mode === mode && sameScope) {
       await this.stopPreview(file);
     } else {
       if (activePreview) {
         await this.stopPreview(file);
       }
-      await this.startPreview(file, mode);
+      await this.startPreview(file, mode, scope);
     }
   }
 
-  async startPreview(file: TFile, mode: PreviewMode = this.defaultPreviewMode()) {
-    const activePreview = this.activePreviewProcesses.get(file.path);
+  // The website / book / manuscript project the file belongs to, or null
+  // when it is outside a project or the project type serves single pages.
+  async projectPreviewTargetFor(file: TFile): Promise<ProjectPreviewTarget | null> {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) return null;
+    const profile = this.activeProfileFor(file);
+    const type = await readProjectPreviewType(
+      this.app,
+      config,
+      profile ? profileConfigFor(config, profile) : null
+    );
+    if (!type) return null;
+    const root = config.parent && config.parent.path !== '/' ? config.parent.path : '';
+    return { config, root, type };
+  }
+
+  // A 'project' scope falls back to a file preview when the project does
+  // not qualify, so the setting is safe to leave on everywhere.
+  async startPreview(
+    file: TFile,
+    mode: PreviewMode = this.defaultPreviewMode(),
+    scope: PreviewScope = this.defaultPreviewScope()
+  ) {
+    const project = scope === 'project' ? await this.projectPreviewTargetFor(file) : null;
+    const key = project ? project.config.path : file.path;
+    if (this.startingPreviews.has(key)) return;
+    const activePreview = this.activePreviewProcesses.get(key);
     if (activePreview?.mode === mode) {
-      return; // Preview already running for this file in this mode.
+      // Preview already running in this mode; a project preview turns to
+      // this file's page.
+      if (activePreview.project) await this.showProjectPage(activePreview, file);
+      return;
     }
     if (activePreview) {
-      await this.stopPreview(file);
+      this.stopPreviewEntry(key);
     }
+    const token = {};
+    this.startingPreviews.set(key, token);
 
     try {
       const abstractFile = this.app.vault.getAbstractFileByPath(file.path);
@@ -521,34 +1369,40 @@ export default class QmdAsMdPlugin extends Plugin {
       }
       const filePath = this.getVaultFullPath(abstractFile);
       if (!filePath) return;
-      const workingDir = path.dirname(filePath);
-
-      const envVars: NodeJS.ProcessEnv = { ...process.env };
-      if (this.settings.quartoTypst.trim()) {
-        envVars.QUARTO_TYPST = this.settings.quartoTypst.trim();
+      const projectDir = this.projectDirFor(abstractFile);
+      const workingDir = project && projectDir ? projectDir : path.dirname(filePath);
+      if (!(await this.checkQuartoRequirements(abstractFile))) return;
+
+      // Single-file previews of the project's pages would recompile into
+      // the same output directory.
+      if (project) {
+        const projectPrefix = project.root ? `${project.root}/` : '';
+        for (const [previewPath, preview] of Array.from(this.activePreviewProcesses.entries())) {
+          if (!preview.project && previewPath.startsWith(projectPrefix)) {
+            this.stopPreviewEntry(previewPath);
+          }
+        }
       }
 
       // Always suppress Quarto's own browser launch. The plugin opens the
       // captured URL exactly once for the selected target, which avoids
       // duplicate tabs and avoids Quarto-managed browser navigation closing
-      // the preview process on subsequent source changes.
-      const args = ['preview', filePath, '--no-browser'];
-
-      // detached: `quarto preview` forks a separate long-lived server
-      // process. Making the spawned process a process-group leader (POSIX)
-      // lets killPreviewProcess signal the whole group — a plain kill() of
-      // the wrapper would orphan the server, leaving it serving and
-      // recompiling after "stop". No process groups on Windows; the kill
-      // there goes through taskkill instead.
-      const quartoProcess = spawn(
-        this.settings.quartoPath,
+      // the preview process on subsequent source changes. A project preview
+      // has no input: Quarto serves the project from its root.
+      const args = [
+        'preview',
+        ...(project ? [] : [filePath]),
+        '--no-browser',
+        ...this.profileArgsFor(abstractFile),
+      ];
+      // Stopped while starting.
+      if (this.startingPreviews.get(key) !== token) return;
+      const runner = new QuartoRunner({
+        binary: this.quartoBinary(),
         args,
-        {
-          cwd: workingDir,
-          env: envVars,
-          detached: process.platform !== 'win32',
-        }
-      );
+        cwd: workingDir,
+        env: this.quartoEnv(),
+      });
 
       let previewUrl: string | null = null;
 
@@ -560,9 +1414,9 @@ export default class QmdAsMdPlugin extends Plugin {
       //  path:  the path that leaf is showing (and the path of an
       //         in-flight open call, recorded synchronously when it
       //         is scheduled). Also gates the preview-URL skip logic
-      //         on the "Browse at" branch below — when a PDF
-      //         preview is active, we don't open Quarto's PDF.js
-      //         wrapper page in the webviewer too.
+      //         in the url handler below — when a PDF preview is
+      //         active, we don't open Quarto's PDF.js wrapper page in
+      //         the webviewer too.
       //  busy:  a call to openOrRefreshPdfPreview is in flight.
       //
       // Schedule open when any of:
@@ -599,276 +1453,595 @@ export default class QmdAsMdPlugin extends Plugin {
           });
       };
 
-      // Quarto "ERROR:" lines from this preview run. Used both to surface
-      // recompile failures live (preview keeps running, so the close
-      // handler never fires) and to explain a startup exit in the Notice.
-      const errorLines: string[] = [];
+      const diagnostics = this.beginDiagnosticRun(abstractFile, 'preview', workingDir);
+      const logRun = this.quartoLog.begin('preview', key);
       // Dedupe: a single failed recompile emits the same ERROR: block on
       // every save until fixed — only Notice when the error text changes.
       let lastErrorShown = '';
 
-      // Per-line handler: log the line, then look for the two markers
-      // we care about ("Output created:" and "Browse at").
-      const handlePreviewLine = (line: string) => {
+      runner.on('line', (line) => {
         logQuartoLine('Quarto Preview', line);
+        this.quartoLog.append(logRun, line);
+        if (diagnostics.handleLine(line)) this.refreshDiagnosticsViews();
+      });
 
-        if (/^ERROR:/.test(line)) {
-          errorLines.push(line);
-          if (line !== lastErrorShown) {
-            lastErrorShown = line;
-            new Notice(`Quarto preview error:\n${line}`, 15000);
-          }
-          return;
+      // Recompile failures are surfaced live: the preview keeps running,
+      // so there is no exit to report them on.
+      runner.on('error', (line) => {
+        this.lastQuartoErrors.set(file.path, line);
+        const entry = this.activePreviewProcesses.get(key);
+        if (entry?.runner === runner) {
+          entry.compile = { status: 'error', at: Date.now(), message: line };
+        }
+        this.refreshPreviewState();
+        if (line !== lastErrorShown) {
+          lastErrorShown = line;
+          new Notice(`Quarto preview error:\n${line}`, 15000);
         }
+      });
+
+      // Quarto prints "Output created:" on every compile in preview mode.
+      runner.on('output', (reported) => {
         // A clean compile clears the dedupe guard so the same error
         // reappearing after a good build is surfaced again.
-        if (line.includes('Output created:')) {
-          lastErrorShown = '';
+        lastErrorShown = '';
+        this.lastQuartoErrors.delete(file.path);
+        const entry = this.activePreviewProcesses.get(key);
+        if (entry?.runner === runner) {
+          entry.compile = { status: 'ok', at: Date.now(), message: null };
         }
-
-        // Detect "Output created: <path>" — quarto prints this on every
-        // compile in preview mode. If the output is a PDF, route to
-        // Obsidian's native PDF viewer rather than the webviewer page
-        // Quarto serves at /web/viewer.html. Subsequent compiles refresh
-        // the same leaf so live reload still works.
-        const outMatch = line.match(/Output created:\s*(.+?)\s*$/);
-        if (outMatch && /\.pdf$/i.test(outMatch[1].trim()) && mode === 'obsidian') {
-          const outBasename = path.basename(outMatch[1].trim());
-          const sourceDir = file.parent?.path ?? '';
-          const vaultPath = normalizePath(sourceDir ? `${sourceDir}/${outBasename}` : outBasename);
+        this.refreshPreviewState();
+        if (entry?.runner === runner && /\.pdf$/i.test(reported)) entry.pdf = true;
+
+        // If the output is a PDF, route to Obsidian's native PDF viewer
+        // rather than the webviewer page Quarto serves at
+        // /web/viewer.html. Subsequent compiles refresh the same leaf so
+        // live reload still works.
+        if (!/\.pdf$/i.test(reported) || mode !== 'obsidian') return;
+        const vaultPath = this.outputVaultPath(reported, workingDir, projectDir);
+        if (vaultPath) {
+          this.lastQuartoOutputs.set(file.path, vaultPath);
           schedulePdfPreview(vaultPath);
-          return;
+        } else {
+          new Notice(`Quarto preview wrote ${reported} outside the vault; Obsidian cannot open it.`);
         }
+      });
 
-        const matchedPreviewUrl = previewUrlFromLine(line);
-        if (!previewUrl && matchedPreviewUrl) {
-          console.log(
-            '[qmd-as-md][diag] Browse-at line seen.',
-            'matched:', matchedPreviewUrl,
-            'pdfPreviewPath:', pdfPreviewPath,
-            'mode:', mode
-          );
-          previewUrl = matchedPreviewUrl;
-          // If we already opened a native PDF preview, skip the
-          // webviewer URL — Quarto's PDF.js wrapper would just be
-          // a worse version of the same content.
-          if (pdfPreviewPath) {
-            new Notice(`PDF preview opened natively. Server URL: ${previewUrl}`);
-          } else {
-            void this.openPreviewUrl(previewUrl, mode);
-          }
-        }
-      };
-
-      // One buffered processor per stream — stdout and stderr each
-      // need their own partial-line buffer, or interleaved fragments
-      // from the two streams would be spliced into synthetic lines.
-      const previewStdout = makeLineProcessor(handlePreviewLine);
-      const previewStderr = makeLineProcessor(handlePreviewLine);
-      quartoProcess.stdout?.on('data', (data: Buffer) => previewStdout(data.toString()));
-      quartoProcess.stderr?.on('data', (data: Buffer) => previewStderr(data.toString()));
-
-      // child_process.spawn does not throw on a missing binary; it emits
-      // an 'error' event later. Without this listener an ENOENT just
-      // produced a silent "exit 1" close with no output to console.
-      quartoProcess.on('error', (err) => {
-        console.error('[qmd-as-md] Failed to spawn quarto for preview:', err);
-        new Notice(
-          `Failed to spawn '${this.settings.quartoPath}': ${err.message}. ` +
-            'Check the Quarto path setting and that Quarto is on PATH.'
+      runner.on('url', (url) => {
+        if (previewUrl) return;
+        console.log(
+          '[qmd-as-md][diag] Browse-at line seen.',
+          'matched:', url,
+          'pdfPreviewPath:', pdfPreviewPath,
+          'mode:', mode
         );
-        if (this.activePreviewProcesses.get(file.path)?.process === quartoProcess) {
-          this.activePreviewProcesses.delete(file.path);
+        previewUrl = url;
+        const activeEntry = this.activePreviewProcesses.get(key);
+        if (activeEntry?.runner === runner) {
+          activeEntry.url = previewUrl;
+          this.refreshPreviewState();
+        }
+        // If we already opened a native PDF preview, skip the
+        // webviewer URL — Quarto's PDF.js wrapper would just be
+        // a worse version of the same content.
+        if (activeEntry?.runner === runner && activeEntry.project) {
+          void this.showProjectPage(activeEntry, file);
+        } else if (pdfPreviewPath) {
+          new Notice(`PDF preview opened natively. Server URL: ${previewUrl}`);
+        } else if (activeEntry?.runner === runner) {
+          void this.navigatePreview(activeEntry, previewUrl);
         }
       });
 
-      quartoProcess.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
-        previewStdout.flush(); // release any final partial line
-        previewStderr.flush();
-        if (code !== null && code !== 0) {
-          const reason = errorLines.length > 0
-            ? errorLines.join('\n')
+      runner.on('exit', (exit) => {
+        this.quartoLog.end(logRun, exit.code, exit.signal);
+        if (exit.spawnError) {
+          this.notifySpawnError('preview', exit.spawnError);
+        } else if (exit.code !== null && exit.code !== 0) {
+          const reason = exit.errorLines.length > 0
+            ? exit.errorLines.join('\n')
             : 'Check the developer console for details.';
-          new Notice(`Quarto preview exited with code ${code}.\n${reason}`, 15000);
-        } else if (code === null && signal && signal !== 'SIGTERM' && signal !== 'SIGKILL') {
+          new Notice(`Quarto preview exited with code ${exit.code}.\n${reason}`, 15000);
+        } else if (exit.code === null && !exit.cancelled && exit.signal) {
           // SIGTERM/SIGKILL come from our own stopPreview / onunload — silent.
-          new Notice(`Quarto preview process was terminated by ${signal}`);
+          new Notice(`Quarto preview process was terminated by ${exit.signal}`);
         }
-        if (this.activePreviewProcesses.get(file.path)?.process === quartoProcess) {
-          this.activePreviewProcesses.delete(file.path);
+        if (this.activePreviewProcesses.get(key)?.runner === runner) {
+          this.activePreviewProcesses.delete(key);
         }
+        this.refreshPreviewState();
+        void this.forgetPreviewPid(runner);
       });
 
-      this.activePreviewProcesses.set(file.path, { process: quartoProcess, mode });
-      new Notice(`Quarto preview started (${mode === 'obsidian' ? 'Obsidian' : 'external browser'})`);
+      this.activePreviewProcesses.set(key, {
+        runner,
+        source: abstractFile,
+        project: project ? { ...project, page: null } : null,
+        mode,
+        url: null,
+        compile: { status: 'pending', at: null, message: null },
+        leaf: null,
+        shownUrl: null,
+        pdf: false,
+      });
+      void this.recordPreviewPid(runner, key);
+      this.refreshPreviewState();
+      const scopeLabel = project ? `${project.type} project, ` : '';
+      new Notice(`Quarto preview started (${scopeLabel}${mode === 'obsidian' ? 'Obsidian' : 'external browser'})`);
     } catch (error) {
       console.error('Failed to start Quarto preview:', error);
       new Notice('Failed to start Quarto preview');
+    } finally {
+      // Registered by now, or never will be.
+      if (this.startingPreviews.get(key) === token) this.startingPreviews.delete(key);
+    }
+  }
+
+  // A spawn failure (missing binary, no execute permission) never
+  // produced any Quarto output; point at the setting instead.
+  private notifySpawnError(what: string, err: Error): void {
+    console.error(`[qmd-as-md] Failed to spawn quarto for ${what}:`, err);
+    new Notice(
+      `Failed to spawn '${this.quartoBinary()}': ${err.message}. ` +
+        'Check the Quarto path setting and that Quarto is on PATH.'
+    );
+  }
+
+  async stopPreview(file: TFile) {
+    const key = this.previewKeyFor(file);
+    if (key) {
+      this.stopPreviewEntry(key);
+      new Notice('Quarto preview stopped');
     }
   }
 
-  // `quarto preview` forks a long-lived server as a child of the spawned
-  // process, so killing only the wrapper leaves that server running. Signal
-  // the whole process tree: the process group on POSIX (the child was
-  // spawned detached, see startPreview), or taskkill /t on Windows.
-  private killPreviewProcess(quartoProcess: ChildProcess): void {
-    if (quartoProcess.killed || quartoProcess.pid === undefined) return;
-    if (process.platform === 'win32') {
-      spawn('taskkill', ['/pid', String(quartoProcess.pid), '/t', '/f']);
+  private stopPreviewEntry(key: string): void {
+    const activePreview = this.activePreviewProcesses.get(key);
+    if (!activePreview) return;
+    activePreview.runner.stop();
+    this.activePreviewProcesses.delete(key);
+    this.refreshPreviewState();
+  }
+
+  // Registry key of the preview covering this file: its own, or a project
+  // preview of the project it belongs to.
+  private previewKeyFor(file: TFile): string | null {
+    if (this.activePreviewProcesses.has(file.path)) return file.path;
+    const config = this.quartoProjectConfigFor(file);
+    return config && this.activePreviewProcesses.get(config.path)?.project ? config.path : null;
+  }
+
+  previewFor(file: TFile): ActivePreview | null {
+    const key = this.previewKeyFor(file);
+    return key ? this.activePreviewProcesses.get(key) ?? null : null;
+  }
+
+  // Show the file's page of a running project preview, reusing the
+  // webviewer leaf that shows the previous page.
+  private async showProjectPage(preview: ActivePreview, file: TFile): Promise<void> {
+    const project = preview.project;
+    if (!project || !preview.url) return;
+    project.page = file.path;
+    const url = projectPageUrl(preview.url, projectPagePath(project.root, file, project.type));
+    await this.navigatePreview(preview, url);
+  }
+
+  private async navigatePreview(preview: ActivePreview, url: string): Promise<void> {
+    preview.shownUrl = url;
+    const leaf = await this.openPreviewUrl(url, preview.mode, preview.leaf);
+    if (preview.runner.running) preview.leaf = leaf;
+  }
+
+  // Scroll the HTML preview of the editor's file to the section the cursor
+  // is in. `follow` is the follow-cursor mode: silent, in-app previews
+  // only, and only when the section changed.
+  async revealSectionInPreview(file: TFile, editor: Editor, follow = false): Promise<void> {
+    const preview = this.previewFor(file);
+    if (!preview) {
+      if (!follow) new Notice(`No Quarto preview is running for ${file.name}.`);
       return;
     }
-    try {
-      // Negative PID targets the whole process group.
-      process.kill(-quartoProcess.pid, 'SIGTERM');
-    } catch {
-      // Group already gone, or never became a leader — best-effort direct kill.
-      try {
-        quartoProcess.kill('SIGTERM');
-      } catch {
-        /* already dead */
-      }
+    if (follow && (preview.mode !== 'obsidian' || preview.leaf?.parent == null)) return;
+    if (!preview.url) {
+      if (!follow) new Notice('The Quarto preview server has not reported its address yet.');
+      return;
+    }
+    if (preview.pdf && !preview.project) {
+      if (!follow) new Notice('Sections can only be revealed in HTML previews.');
+      return;
     }
+    const page = preview.project
+      ? projectPageUrl(preview.url, projectPagePath(preview.project.root, file, preview.project.type))
+      : preview.url;
+    const id = sectionIdAt(editor.getValue(), editor.getCursor().line);
+    const url = id ? `${page.replace(/#.*$/, '')}#${encodeURIComponent(id)}` : page;
+    if (follow && url === preview.shownUrl) return;
+    if (preview.project) preview.project.page = file.path;
+    await this.navigatePreview(preview, url);
   }
 
-  async stopPreview(file: TFile) {
-    const activePreview = this.activePreviewProcesses.get(file.path);
-    if (activePreview) {
-      this.killPreviewProcess(activePreview.process);
-      this.activePreviewProcesses.delete(file.path);
-      new Notice('Quarto preview stopped');
+  // Opening another chapter of a project previewed in Obsidian turns the
+  // preview to that chapter. Browser previews are left alone — a new
+  // browser tab per opened file would be worse than none.
+  private followProjectPreview(file: TFile | null): void {
+    if (!file || !(this.isQuartoFile(file) || this.isMarkdownFile(file))) return;
+    const config = this.quartoProjectConfigFor(file);
+    const preview = config ? this.activePreviewProcesses.get(config.path) : undefined;
+    if (!preview?.project || preview.mode !== 'obsidian') return;
+    if (preview.project.page === file.path || preview.leaf?.parent == null) return;
+    void this.showProjectPage(preview, file);
+  }
+
+  private async recordPreviewPid(runner: QuartoRunner, sourcePath: string): Promise<void> {
+    const pid = runner.process.pid;
+    if (pid === undefined) return; // never started; the exit event reports it
+    this.settings.runningPreviews.push({ pid, sourcePath, startedAt: runner.startedAt });
+    await this.saveSettings();
+  }
+
+  private async forgetPreviewPid(runner: QuartoRunner): Promise<void> {
+    const pid = runner.process.pid;
+    const before = this.settings.runningPreviews.length;
+    this.settings.runningPreviews = this.settings.runningPreviews.filter((r) => r.pid !== pid);
+    if (this.settings.runningPreviews.length !== before) await this.saveSettings();
+  }
+
+  // Previews recorded by an earlier session that never reached onunload
+  // (crash, force-quit). Each record is checked once: stopped, or left
+  // running at the user's request, it is forgotten either way.
+  private async cleanUpOrphanedPreviews(records: RecordedPreview[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.saveSettings();
+
+    const orphans = await findOrphanedPreviews(records);
+    if (orphans.length === 0) return;
+    const stop = () => {
+      killOrphanedPreviews(orphans);
+      new Notice(
+        orphans.length === 1
+          ? `Stopped a Quarto preview left running for ${orphans[0].sourcePath}.`
+          : `Stopped ${orphans.length} Quarto previews left running.`
+      );
+    };
+    // Only processes confirmed to be the recorded ones are stopped
+    // unasked; an unverified PID may have been reused by another program.
+    if (this.settings.orphanedPreviews === 'kill' && orphans.every((orphan) => orphan.verified)) {
+      stop();
+      return;
     }
+    new OrphanedPreviewsModal(this.app, orphans, (kill) => {
+      if (kill) stop();
+    }).open();
+  }
+
+  // Stop and start again in the same mode, e.g. after the server got stuck.
+  async restartPreview(file: TFile) {
+    const preview = this.previewFor(file);
+    if (!preview) return;
+    await this.stopPreview(file);
+    await this.startPreview(preview.source, preview.mode, preview.project ? 'project' : 'file');
   }
 
   stopAllPreviews() {
     const hadPreviews = this.activePreviewProcesses.size > 0;
+    this.startingPreviews.clear();
     this.activePreviewProcesses.forEach((activePreview, filePath) => {
-      this.killPreviewProcess(activePreview.process);
+      activePreview.runner.stop();
       this.activePreviewProcesses.delete(filePath);
     });
+    this.refreshPreviewState();
     if (hadPreviews) {
       new Notice('All Quarto previews stopped');
     }
   }
 
-  async renderPdf(file: TFile, toFormat?: 'pdf' | 'typst') {
+  // Cancel the render of this file or, failing that, a project render
+  // (keyed by its _quarto.yml path) the file belongs to.
+  cancelRender(file: TFile): boolean {
+    const config = this.quartoProjectConfigFor(file);
+    const key = [file.path, config?.path].find((k) => k && this.activeRenderJobs.has(k));
+    const job = key ? this.activeRenderJobs.get(key) : undefined;
+    if (!key || !job) {
+      new Notice(`No Quarto render is running for ${file.name}.`);
+      return false;
+    }
+    this.stopRenderJob(key);
+    new Notice(`Quarto render cancelled (${job.label}).`);
+    return true;
+  }
+
+  private stopRenderJob(key: string): void {
+    const job = this.activeRenderJobs.get(key);
+    if (!job) return;
+    job.runner?.stop();
+    this.activeRenderJobs.delete(key);
+    this.refreshStatusBar();
+  }
+
+  // Free a slot renderPdf / renderProject took but did not use, unless it
+  // was cancelled (and so released) already.
+  private releaseRenderSlot(key: string, job: ActiveRender): void {
+    if (this.activeRenderJobs.get(key) !== job) return;
+    this.activeRenderJobs.delete(key);
+    this.refreshStatusBar();
+  }
+
+  // The running render covering this file: its own, or a project render
+  // of the project it belongs to.
+  renderJobFor(file: TFile): ActiveRender | null {
+    const config = this.quartoProjectConfigFor(file);
+    return this.activeRenderJobs.get(file.path)
+      ?? (config ? this.activeRenderJobs.get(config.path) : undefined)
+      ?? null;
+  }
+
+  // A project render, or a render of any file in the project.
+  private projectHasRenderJob(config: TFile): boolean {
+    return Array.from(this.activeRenderJobs.keys()).some((key) => {
+      if (key === config.path) return true;
+      const file = this.app.vault.getAbstractFileByPath(key);
+      return file instanceof TFile && this.quartoProjectConfigFor(file)?.path === config.path;
+    });
+  }
+
+  refreshStatusBar(): void {
+    this.statusBar?.update();
+  }
+
+  // A preview started, stopped, got its URL or finished a compile.
+  refreshPreviewState(): void {
+    this.refreshStatusBar();
+    this.refreshPreviewsViews();
+  }
+
+  // Open a rendered artefact: PDFs in Obsidian's viewer, anything else
+  // (docx, html, ...) in the system's default application. An absolute
+  // path is output written outside the vault; it goes to the default
+  // application too.
+  async openOutput(vaultPath: string): Promise<void> {
+    if (path.isAbsolute(vaultPath)) {
+      const error = await shell.openPath(vaultPath);
+      if (error) new Notice(`Could not open ${vaultPath}: ${error}`);
+      return;
+    }
+    const output = this.app.vault.getAbstractFileByPath(vaultPath);
+    if (!(output instanceof TFile)) {
+      new Notice(`${vaultPath} no longer exists.`);
+      return;
+    }
+    if (output.extension === 'pdf') {
+      await this.openOrRefreshPdfPreview(output.path, null);
+      return;
+    }
+    const fullPath = this.getVaultFullPath(output);
+    if (!fullPath) return;
+    const error = await shell.openPath(fullPath);
+    if (error) {
+      new Notice(`Could not open ${vaultPath}: ${error}`);
+    }
+  }
+
+  cancelAllRenders() {
+    const hadRenders = this.activeRenderJobs.size > 0;
+    for (const key of Array.from(this.activeRenderJobs.keys())) {
+      this.stopRenderJob(key);
+    }
+    if (hadRenders) {
+      new Notice('All Quarto renders cancelled');
+    }
+  }
+
+  // Render-on-save is on for a file when its front matter says
+  // `render-on-save: true`, or when the global setting is on and the front
+  // matter does not opt out with `render-on-save: false`.
+  async isRenderOnSaveEnabled(file: TFile): Promise<boolean> {
+    const meta = parseYamlBlock(frontMatterOf(await this.app.vault.cachedRead(file)));
+    const perFile = meta?.['render-on-save'];
+    return typeof perFile === 'boolean' ? perFile : this.settings.renderOnSave;
+  }
+
+  scheduleRenderOnSave(file: TFile): void {
+    if (!this.isQuartoFile(file) && !(
+      this.isMarkdownFile(file) &&
+      this.settings.previewMarkdownFiles &&
+      this.hasQuartoProjectConfigInPath(file)
+    )) {
+      return;
+    }
+    // A running preview already recompiles on save.
+    if (this.previewFor(file)) return;
+
+    const pending = this.renderOnSaveTimers.get(file.path);
+    if (pending !== undefined) window.clearTimeout(pending);
+    const timer = window.setTimeout(() => {
+      this.renderOnSaveTimers.delete(file.path);
+      void this.renderOnSave(file);
+    }, this.settings.renderOnSaveDelaySeconds * 1000);
+    this.renderOnSaveTimers.set(file.path, timer);
+  }
+
+  private async renderOnSave(file: TFile): Promise<void> {
+    if (this.previewFor(file)) return;
+    if (!(await this.isRenderOnSaveEnabled(file))) return;
+    const running = this.activeRenderJobs.get(file.path);
+    if (running && !running.background) {
+      // A render the user started (maybe --to docx, -P params or
+      // --cache-refresh) is left to finish; try again after it.
+      this.scheduleRenderOnSave(file);
+      return;
+    }
+    // An earlier render-on-save is rendering stale content — replace it
+    // rather than queueing a second one behind it.
+    this.stopRenderJob(file.path);
+    await this.renderPdf(file, undefined, { background: true });
+  }
+
+  // Resolves once the render process has exited (not when the output has
+  // been opened), so callers can chain renders one after another.
+  async renderPdf(file: TFile, toFormat?: string, options: RenderOptions = {}): Promise<RenderOutcome> {
+    let job: ActiveRender | null = null;
     try {
       const abstractFile = this.app.vault.getAbstractFileByPath(file.path);
       if (!abstractFile || !(abstractFile instanceof TFile)) {
         new Notice(`File ${file.path} not found`);
-        return;
+        return 'failed';
+      }
+
+      // Two renders of the same source write to the same output paths and
+      // race each other to the finish. Reject the second one; the user can
+      // cancel the running render explicitly if they want to restart it.
+      // A render-on-save render gives way to one the user starts.
+      let runningJob = this.activeRenderJobs.get(file.path);
+      if (runningJob?.background && !options.background) {
+        this.stopRenderJob(file.path);
+        runningJob = undefined;
       }
+      if (runningJob) {
+        new Notice(
+          `A Quarto render (${runningJob.label}) is already running for ${file.name}. ` +
+            'Use "Cancel Quarto render for current file" to stop it first.'
+        );
+        return 'failed';
+      }
+      const engineLabel = toFormat === 'typst'
+        ? 'Typst'
+        : toFormat === 'pdf'
+          ? 'LaTeX'
+          : toFormat ?? 'format defined in YAML';
+      const reserved: ActiveRender = {
+        runner: null,
+        label: engineLabel,
+        startedAt: Date.now(),
+        background: options.background ?? false,
+      };
+      job = reserved;
+      this.activeRenderJobs.set(file.path, reserved);
+      this.refreshStatusBar();
 
       // A running `quarto preview` keeps recompiling the same source and
       // writes to overlapping output paths. Stop it before a one-shot
       // render so the two Quarto processes do not fight over the output.
-      if (this.activePreviewProcesses.has(file.path)) {
+      if (this.previewFor(file)) {
         await this.stopPreview(file);
       }
 
       const filePath = this.getVaultFullPath(abstractFile);
-      if (!filePath) return;
+      if (!filePath) return 'failed';
       const workingDir = path.dirname(filePath);
+      if (!(await this.checkQuartoRequirements(abstractFile, toFormat))) return 'failed';
 
-      const envVars: NodeJS.ProcessEnv = { ...process.env };
-      if (this.settings.quartoTypst.trim()) {
-        envVars.QUARTO_TYPST = this.settings.quartoTypst.trim();
+      if (!options.background) {
+        new Notice(`Rendering Quarto (${engineLabel})...`);
       }
 
-      const engineLabel = toFormat === 'typst' ? 'Typst' : toFormat === 'pdf' ? 'LaTeX' : 'format defined in YAML';
-      new Notice(`Rendering Quarto (${engineLabel})...`);
-
       // Best-guess path used for the pre-render leaf-capture (so we can
       // reuse an existing PDF tab on recompile). The authoritative path
       // comes from quarto's "Output created:" stdout line, parsed below.
-      const guessedPdfPath = this.pdfPathFor(file);
+      const guessedPdfPath = await this.pdfPathFor(file);
       const existingLeaf = this.app.workspace
         .getLeavesOfType('pdf')
         .find((l) => this.leafFile(l)?.path === guessedPdfPath);
 
+      // Cancelled while starting.
+      if (this.activeRenderJobs.get(file.path) !== reserved) return 'cancelled';
+
       const args = ['render', filePath];
       if (toFormat) args.push('--to', toFormat);
+      args.push(...this.profileArgsFor(file));
+      args.push(...(options.extraArgs ?? []));
 
-      const quartoProcess = spawn(this.settings.quartoPath, args, {
+      const runner = new QuartoRunner({
+        binary: this.quartoBinary(),
+        args,
         cwd: workingDir,
-        env: envVars,
+        env: this.quartoEnv(),
       });
+      reserved.runner = runner;
+      reserved.startedAt = runner.startedAt;
+      this.refreshStatusBar();
 
-      let detectedOutputBasename: string | null = null;
-      // Quarto prints the human-readable cause on "ERROR:" lines (bad YAML,
-      // missing engine, etc.). Keep them so a failing close can surface the
-      // real reason in the Notice instead of a bare exit code.
-      const errorLines: string[] = [];
+      const outcome = runner.exited.then((exit): RenderOutcome =>
+        exit.code === 0 ? 'success' : exit.cancelled ? 'cancelled' : 'failed'
+      );
 
-      // Per-line handler: log the line, then watch for "Output created:".
-      const handleRenderLine = (line: string) => {
-        logQuartoLine('Quarto', line);
-        const match = line.match(/Output created:\s*(.+?)\s*$/);
-        if (match) {
-          detectedOutputBasename = path.basename(match[1].trim());
-        }
-        if (/^ERROR:/.test(line)) {
-          errorLines.push(line);
-        }
-      };
+      const projectDir = this.projectDirFor(file);
+      // Raw path from the last "Output created:" line, resolved against
+      // workingDir / projectDir once the render has finished.
+      let detectedOutputPath: string | null = null;
+      const reportedOutputs: string[] = [];
+      const diagnostics = this.beginDiagnosticRun(file, 'render', workingDir);
+      const logRun = this.quartoLog.begin('render', file.path);
 
-      // One buffered processor per stream — stdout and stderr each
-      // need their own partial-line buffer, or interleaved fragments
-      // from the two streams would be spliced into synthetic lines.
-      const renderStdout = makeLineProcessor(handleRenderLine);
-      const renderStderr = makeLineProcessor(handleRenderLine);
-      quartoProcess.stdout?.on('data', (data: Buffer) => renderStdout(data.toString()));
-      quartoProcess.stderr?.on('data', (data: Buffer) => renderStderr(data.toString()));
-
-      // child_process.spawn does not throw on a missing binary; it emits
-      // an 'error' event later. Without this listener an ENOENT just
-      // produced a silent "exit 1" close with no output to console.
-      quartoProcess.on('error', (err) => {
-        console.error('[qmd-as-md] Failed to spawn quarto for render:', err);
-        new Notice(
-          `Failed to spawn '${this.settings.quartoPath}': ${err.message}. ` +
-            'Check the Quarto path setting and that Quarto is on PATH.'
-        );
+      runner.on('line', (line) => {
+        logQuartoLine('Quarto', line);
+        this.quartoLog.append(logRun, line);
+        if (diagnostics.handleLine(line)) this.refreshDiagnosticsViews();
+      });
+      runner.on('output', (reported) => {
+        detectedOutputPath = reported;
+        reportedOutputs.push(reported);
       });
 
-      quartoProcess.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      runner.on('exit', (exit) => {
+        if (this.activeRenderJobs.get(file.path)?.runner === runner) {
+          this.activeRenderJobs.delete(file.path);
+        }
+        this.refreshStatusBar();
+        this.quartoLog.end(logRun, exit.code, exit.signal);
+        this.recordRender(file, {
+          startedAt: runner.startedAt,
+          label: engineLabel,
+          durationMs: Date.now() - runner.startedAt,
+          status: exit.code === 0 ? 'success' : exit.cancelled ? 'cancelled' : 'failed',
+          exit: exitLabel(exit),
+          outputs: reportedOutputs.map(
+            (reported) =>
+              this.outputVaultPath(reported, workingDir, projectDir) ??
+              resolveReportedOutput(reported, projectDir ? [workingDir, projectDir] : [workingDir])
+          ),
+          firstError: exit.errorLines[0] ?? exit.spawnError?.message ?? null,
+        });
         void (async () => {
-          renderStdout.flush(); // release any final partial line
-          renderStderr.flush();
-
+          if (exit.spawnError) {
+            this.notifySpawnError('render', exit.spawnError);
+            return;
+          }
           // A clean exit is code 0. Anything else is a failure, except a
           // termination by SIGTERM/SIGKILL — that means the process was
-          // intentionally cancelled (matching the preview handler, which
-          // suppresses notices for those signals). Stay quiet then.
-          if (code === 0) {
-            // fall through to the success path below
-          } else if (code === null && (signal === 'SIGTERM' || signal === 'SIGKILL')) {
-            console.error(`[qmd-as-md] Quarto render cancelled (${signal}).`);
+          // intentionally cancelled (cancelRender / cancelAllRenders already
+          // showed a notice, matching the preview handler). Stay quiet then.
+          if (exit.cancelled) {
+            console.error(`[qmd-as-md] Quarto render cancelled (${exit.signal}).`);
             return;
-          } else {
-            const exitLabel = code !== null
-              ? `exit ${code}`
-              : signal
-                ? `terminated by ${signal}`
-                : 'terminated';
+          }
+          if (exit.code !== 0) {
+            const label = exitLabel(exit);
             // The full output was already streamed line-by-line through
             // console.log / console.error as it arrived — no need to
             // re-dump it. Surface the actual ERROR: line(s) in the Notice so
             // the user sees the cause (bad YAML, missing engine, ...) without
             // having to open the developer console.
-            console.error(`[qmd-as-md] Quarto render failed (${exitLabel}).`);
-            const reason = errorLines.length > 0
-              ? errorLines.join('\n')
+            console.error(`[qmd-as-md] Quarto render failed (${label}).`);
+            const reason = exit.errorLines.length > 0
+              ? exit.errorLines.join('\n')
               : 'Check the developer console for details.';
-            new Notice(`Quarto render failed (${exitLabel}).\n${reason}`, 15000);
+            this.lastQuartoErrors.set(file.path, `Render failed (${label}). ${exit.errorLines[0] ?? ''}`.trim());
+            this.refreshStatusBar();
+            new Notice(`Quarto render failed (${label}).\n${reason}`, 15000);
             return;
           }
 
-          const sourceDir = file.parent?.path ?? '';
-          const outputVaultPath = normalizePath(
-            detectedOutputBasename
-              ? (sourceDir ? `${sourceDir}/${detectedOutputBasename}` : detectedOutputBasename)
-              : guessedPdfPath
-          );
+          const outputVaultPath = detectedOutputPath
+            ? this.outputVaultPath(detectedOutputPath, workingDir, projectDir)
+            : guessedPdfPath;
+          if (!outputVaultPath) {
+            new Notice(`Quarto rendered ${detectedOutputPath ?? 'the file'} outside the vault; Obsidian cannot open it.`);
+            return;
+          }
+
+          this.lastQuartoErrors.delete(file.path);
+          this.lastQuartoOutputs.set(file.path, outputVaultPath);
+          this.refreshStatusBar();
 
           const outputTFile = await this.waitForVaultFile(outputVaultPath);
 
@@ -882,6 +2055,7 @@ export default class QmdAsMdPlugin extends Plugin {
           const isPdf = outputVaultPath.toLowerCase().endsWith('.pdf');
 
           if (!this.settings.openPdfInObsidian || !isPdf) {
+            if (options.background) return;
             new Notice(
               isPdf
                 ? `PDF rendered: ${outputVaultPath}`
@@ -891,10 +2065,19 @@ export default class QmdAsMdPlugin extends Plugin {
           }
 
           try {
+            // The pre-render guess may differ from what Quarto reported
+            // (output-dir, multi-format); also reuse a tab already showing
+            // the real artefact.
             const leaf = existingLeaf?.parent != null
               ? existingLeaf
-              : this.app.workspace.getLeaf('split', 'vertical');
+              : this.app.workspace
+                  .getLeavesOfType('pdf')
+                  .find((l) => this.leafFile(l)?.path === outputTFile.path) ??
+                this.app.workspace.getLeaf('split', 'vertical');
             await leaf.openFile(outputTFile, { active: false });
+            // Render-on-save refreshes the pane in place: no jumping to it
+            // and no notice on every save.
+            if (options.background) return;
             await this.app.workspace.revealLeaf(leaf);
             new Notice(`Opened ${outputVaultPath}`);
           } catch (err) {
@@ -907,12 +2090,128 @@ export default class QmdAsMdPlugin extends Plugin {
           console.error('[qmd-as-md] Quarto render close handler failed:', err);
         });
       });
+
+      return await outcome;
     } catch (error) {
       console.error('Failed to render Quarto PDF:', error);
       new Notice('Failed to render Quarto PDF');
+      return 'failed';
+    } finally {
+      // Every return before the spawn gives the slot back.
+      if (job && !job.runner) this.releaseRenderSlot(file.path, job);
+    }
+  }
+
+  // Run `quarto render` with no input at the project root, so Quarto
+  // renders every file of the website / book / manuscript declared by
+  // _quarto.yml. The job is registered under the config's path, which keeps
+  // it cancellable by "Cancel all Quarto renders" and stops a second
+  // project render from starting while one is running.
+  async renderProject(file: TFile) {
+    const config = this.quartoProjectConfigFor(file);
+    if (!config) {
+      new Notice('No _quarto.yml found in this file folder or an ancestor up to the vault root.');
+      return;
+    }
+    const runningJob = this.activeRenderJobs.get(config.path);
+    if (runningJob) {
+      new Notice('A Quarto project render is already running for this project.');
+      return;
+    }
+    const job: ActiveRender = { runner: null, label: 'project', startedAt: Date.now(), background: false };
+    this.activeRenderJobs.set(config.path, job);
+    this.refreshStatusBar();
+
+    try {
+      const configFullPath = this.getVaultFullPath(config);
+      if (!configFullPath) return;
+      const projectDir = path.dirname(configFullPath);
+      if (!(await this.checkQuartoRequirements(config))) return;
+
+      // Previews of files inside the project recompile into the same
+      // output directory — stop them, as renderPdf does for its file.
+      const projectPrefix = config.parent && config.parent.path !== '/' ? `${config.parent.path}/` : '';
+      for (const previewPath of Array.from(this.activePreviewProcesses.keys())) {
+        const previewFile = this.app.vault.getAbstractFileByPath(previewPath);
+        if (previewFile instanceof TFile && previewPath.startsWith(projectPrefix)) {
+          await this.stopPreview(previewFile);
+        }
+      }
+
+      // Cancelled while starting.
+      if (this.activeRenderJobs.get(config.path) !== job) return;
+      const runner = new QuartoRunner({
+        binary: this.quartoBinary(),
+        args: ['render', ...this.profileArgsFor(file)],
+        cwd: projectDir,
+        env: this.quartoEnv(),
+      });
+      job.runner = runner;
+      job.startedAt = runner.startedAt;
+      this.refreshStatusBar();
+
+      // A single long-lived notice, updated in place as files finish,
+      // instead of one notice per rendered file.
+      const progress = new ProjectRenderProgress();
+      const diagnostics = this.beginDiagnosticRun(config, 'render', projectDir);
+      const logRun = this.quartoLog.begin('render', config.path);
+      const progressNotice = new Notice(progress.progressText(), 0);
+
+      runner.on('line', (line) => {
+        logQuartoLine('Quarto Project', line);
+        this.quartoLog.append(logRun, line);
+        if (diagnostics.handleLine(line)) this.refreshDiagnosticsViews();
+        if (progress.handleLine(stripAnsiCodes(line))) {
+          progressNotice.setMessage(progress.progressText());
+        }
+      });
+
+      runner.on('exit', (exit) => {
+        if (this.activeRenderJobs.get(config.path)?.runner === runner) {
+          this.activeRenderJobs.delete(config.path);
+        }
+        this.refreshStatusBar();
+        this.quartoLog.end(logRun, exit.code, exit.signal);
+        progressNotice.hide();
+
+        if (exit.spawnError) {
+          this.notifySpawnError('project render', exit.spawnError);
+          return;
+        }
+        if (exit.cancelled) {
+          console.error(`[qmd-as-md] Quarto project render cancelled (${exit.signal}).`);
+          return;
+        }
+        const label = exit.code === 0 ? null : exitLabel(exit);
+        progress.finish(label === null);
+        new Notice(progress.summary(label), label === null ? 8000 : 15000);
+      });
+    } catch (error) {
+      console.error('Failed to render Quarto project:', error);
+      new Notice('Failed to render Quarto project');
+    } finally {
+      if (!job.runner) this.releaseRenderSlot(config.path, job);
     }
   }
 
+  private recordRender(file: TFile, entry: RenderHistoryEntry): void {
+    addRenderHistory(this.renderHistory, file.path, entry);
+    this.saveRenderHistory();
+  }
+
+  showRenderHistory(file: TFile) {
+    new RenderHistoryModal(
+      this.app,
+      file,
+      this.renderHistory[file.path] ?? [],
+      (outputPath) => void this.openOutput(outputPath),
+      () => {
+        delete this.renderHistory[file.path];
+        this.saveRenderHistory();
+      }
+    ).open();
+  }
+
   async waitForVaultFile(vaultPath: string, timeoutMs = 5000): Promise<TFile | null> {
     const start = Date.now();
     while (Date.now() - start < timeoutMs) {
@@ -926,12 +2225,124 @@ export default class QmdAsMdPlugin extends Plugin {
 
 class QmdSettingTab extends PluginSettingTab {
   plugin: QmdAsMdPlugin;
+  private versionSetting: Setting | null = null;
+  // Re-probe once the user stops typing in "Quarto path" — each probe
+  // spawns `quarto --version`, possibly several times.
+  private redetectQuarto = debounce(
+    () => this.showQuartoDetection(this.plugin.detectQuartoInstall()),
+    800,
+    true
+  );
 
   constructor(app: App, plugin: QmdAsMdPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
+  private showQuartoDetection(detection: Promise<QuartoInstall | null>): void {
+    const setting = this.versionSetting;
+    if (!setting) return;
+    setting.setDesc('Detecting…');
+    void detection.then((install) => {
+      if (setting !== this.versionSetting) return; // tab re-rendered
+      setting.setDesc(
+        install
+          ? `Quarto ${install.version} at ${install.path} (found via ${install.source}).`
+          : 'No working Quarto found. Install Quarto or set the full path to the executable above.'
+      );
+    });
+  }
+
+  // Environment section: variables added to every spawned `quarto` (see
+  // buildQuartoEnv). Extra PATH entries can change which Quarto is found,
+  // so editing them re-runs detection.
+  private displayEnvironment(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName('Environment').setHeading();
+
+    const named: [string, string, 'quartoTypst' | 'quartoPython' | 'quartoR', string][] = [
+      ['QUARTO_TYPST variable', 'Typst binary Quarto should use (leave empty to unset).', 'quartoTypst', 'e.g. typst_path'],
+      ['QUARTO_PYTHON variable', 'Python interpreter for the Jupyter engine (leave empty to unset).', 'quartoPython', 'e.g. /opt/venvs/paper/bin/python'],
+      ['QUARTO_R variable', 'R installation for the knitr engine (leave empty to unset).', 'quartoR', 'e.g. /usr/local/bin/R'],
+    ];
+    for (const [name, desc, key, placeholder] of named) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText((text) =>
+          text
+            .setPlaceholder(placeholder)
+            .setValue(this.plugin.settings[key])
+            .onChange(async (value) => {
+              this.plugin.settings[key] = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('Extra search directories')
+      .setDesc('Directories put in front of the executable search path for Quarto and the tools it runs, one per line.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('/opt/homebrew/bin')
+          .setValue(this.plugin.settings.extraPathEntries.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.extraPathEntries = value.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+            await this.plugin.saveSettings();
+            this.redetectQuarto();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Other environment variables')
+      .setDesc('Any other variables Quarto should see. Rows with an empty name are ignored.')
+      .addButton((btn) =>
+        btn.setButtonText('Add variable').onClick(async () => {
+          this.plugin.settings.envVars.push({ key: '', value: '' });
+          await this.plugin.saveSettings();
+          renderRows();
+        })
+      );
+
+    const rowsEl = containerEl.createDiv({ cls: 'qmd-env-rows' });
+    const renderRows = () => {
+      rowsEl.empty();
+      this.plugin.settings.envVars.forEach((entry) => {
+        new Setting(rowsEl)
+          .setClass('qmd-env-row')
+          .addText((text) =>
+            text
+              .setPlaceholder('NAME')
+              .setValue(entry.key)
+              .onChange(async (value) => {
+                entry.key = value;
+                await this.plugin.saveSettings();
+              })
+          )
+          .addText((text) =>
+            text
+              .setPlaceholder('Value')
+              .setValue(entry.value)
+              .onChange(async (value) => {
+                entry.value = value;
+                await this.plugin.saveSettings();
+              })
+          )
+          .addExtraButton((btn) =>
+            btn
+              .setIcon('trash')
+              .setTooltip('Remove variable')
+              .onClick(async () => {
+                this.plugin.settings.envVars.remove(entry);
+                await this.plugin.saveSettings();
+                renderRows();
+              })
+          );
+      });
+    };
+    renderRows();
+  }
+
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
@@ -946,9 +2357,22 @@ class QmdSettingTab extends PluginSettingTab {
           .onChange(async (value) => {
             this.plugin.settings.quartoPath = value;
             await this.plugin.saveSettings();
+            this.redetectQuarto();
           })
       );
 
+    // Filled in once detection settles; kept current while the user edits
+    // the path above.
+    const detected = new Setting(containerEl).setName('Detected Quarto');
+    this.versionSetting = detected;
+    detected.addExtraButton((btn) =>
+      btn
+        .setIcon('refresh-cw')
+        .setTooltip('Detect again')
+        .onClick(() => this.showQuartoDetection(this.plugin.detectQuartoInstall()))
+    );
+    this.showQuartoDetection(this.plugin.quartoDetection);
+
     new Setting(containerEl)
       .setName('Templates folder')
       .setDesc(
@@ -967,6 +2391,22 @@ class QmdSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Quarto log runs per file')
+      .setDesc(
+        'How many previews and renders of each file the "Quarto log" view keeps. Older runs are dropped.'
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 20, 1)
+          .setValue(this.plugin.settings.logRunsPerFile)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.logRunsPerFile = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Enable editing Quarto files')
       .setDesc(
@@ -984,29 +2424,48 @@ class QmdSettingTab extends PluginSettingTab {
           })
       );
 
+    this.displayEnvironment(containerEl);
+
     new Setting(containerEl)
-      .setName('QUARTO_TYPST variable')
-      .setDesc('Value for the QUARTO_TYPST environment variable (leave empty to unset).')
-      .addText((text) =>
-        text
-          .setPlaceholder('e.g. typst_path')
-          .setValue(this.plugin.settings.quartoTypst)
+      .setName('Open compiled PDF in Obsidian')
+      .setDesc(
+        "When rendering to PDF, open the resulting file inside Obsidian using the built-in PDF viewer. The .qmd source must live in the vault so the rendered PDF is accessible."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.openPdfInObsidian)
           .onChange(async (value) => {
-            this.plugin.settings.quartoTypst = value;
+            this.plugin.settings.openPdfInObsidian = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName('Open compiled PDF in Obsidian')
+      .setName('Render on save')
       .setDesc(
-        "When rendering to PDF, open the resulting file inside Obsidian using the built-in PDF viewer. The .qmd source must live in the vault so the rendered PDF is accessible."
+        'Re-render a .qmd automatically a moment after it is saved, using the format defined in its YAML. ' +
+          'A single file can opt in or out with "render-on-save: true" / "render-on-save: false" in its front matter. ' +
+          'Skipped while a preview of that file is running.'
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.openPdfInObsidian)
+          .setValue(this.plugin.settings.renderOnSave)
           .onChange(async (value) => {
-            this.plugin.settings.openPdfInObsidian = value;
+            this.plugin.settings.renderOnSave = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Render on save delay')
+      .setDesc('Seconds to wait after the last save before rendering. Saves during a render cancel it and start over.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 30, 1)
+          .setValue(this.plugin.settings.renderOnSaveDelaySeconds)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.renderOnSaveDelaySeconds = value;
             await this.plugin.saveSettings();
           })
       );
@@ -1029,6 +2488,55 @@ class QmdSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Preview websites and books as a whole')
+      .setDesc(
+        'When on, previewing a file of a website, book or manuscript project serves the whole project from its root, ' +
+          "so navigation and cross-references work, and opens the file's page. Opening another chapter turns the in-app preview to it. " +
+          'Files outside such projects are previewed on their own either way.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.previewWholeProject)
+          .onChange(async (value) => {
+            this.plugin.settings.previewWholeProject = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Scroll preview to the section being edited')
+      .setDesc(
+        'When on, an HTML preview shown in Obsidian scrolls to the section the cursor is in as you move through the file. ' +
+          'Reveal current section in Quarto preview does this once, on demand.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.previewFollowCursor)
+          .onChange(async (value) => {
+            this.plugin.settings.previewFollowCursor = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Leftover preview servers')
+      .setDesc(
+        'Previews still running after Obsidian crashed or was force-quit are found on the next start. ' +
+          'Ask lists them and lets you stop them; stop automatically ends them without asking, ' +
+          'except on Windows, where a process cannot be confirmed to be the preview and you are always asked.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('ask', 'Ask')
+          .addOption('kill', 'Stop automatically')
+          .setValue(this.plugin.settings.orphanedPreviews)
+          .onChange(async (value) => {
+            this.plugin.settings.orphanedPreviews = value as OrphanedPreviewAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Preview and render Markdown files with Quarto')
       .setDesc(
@@ -1085,8 +2593,8 @@ class QmdSettingTab extends PluginSettingTab {
       .setName('Show Quarto outline')
       .setDesc(
         "Add a sidebar outline of the active .qmd file's headings (Obsidian's " +
-          'core Outline panel cannot read .qmd files). Active file only — ' +
-          'headings from included files are not listed. The "Open Quarto ' +
+          'core Outline panel cannot read .qmd files). Files pulled in with ' +
+          '{{< include >}} are expanded in place. The "Open Quarto ' +
           'outline" command works regardless of this toggle.'
       )
       .addToggle((toggle) =>
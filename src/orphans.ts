@@ -0,0 +1,159 @@
+import { App, Modal, Setting } from 'obsidian';
+import { execFile } from 'child_process';
+import { killPidTree } from './quarto-runner';
+
+// --- Orphaned preview servers ---------------------------------------------
+//
+// Previews are stopped in onunload, but a crash or a force-quit skips it and
+// leaves `quarto preview` serving and recompiling with nobody to stop it.
+// main.ts records each preview's PID in plugin data while it runs; on the
+// next load, any recorded PID that is still alive *and* still looks like a
+// Quarto preview (PIDs get reused) is an orphan the plugin can clean up.
+//
+// On POSIX, ps gives the command line and how long the process has been
+// running, so an orphan must be a `quarto preview` started when the record
+// says. tasklist on Windows gives neither, only the image name; such an
+// orphan is unverified and is never stopped without asking.
+
+export interface RecordedPreview {
+  pid: number;
+  sourcePath: string;
+  startedAt: number; // when the plugin spawned it (epoch ms)
+}
+
+export interface OrphanedPreview extends RecordedPreview {
+  // The process's own start time matched the record.
+  verified: boolean;
+}
+
+// ps reports elapsed time to the second, and the record is taken just
+// before the spawn.
+const START_TOLERANCE_MS = 10_000;
+
+export type OrphanedPreviewAction = 'ask' | 'kill';
+
+function isAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists.
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    // ESRCH: gone. EPERM: the PID now belongs to another user — not ours.
+    return false;
+  }
+}
+
+interface ProcessInfo {
+  commandLine: string;
+  startedAt: number | null; // null where the platform does not tell
+}
+
+// `ps -o etime=` is [[dd-]hh:]mm:ss on Linux and macOS alike.
+function parseElapsed(etime: string): number | null {
+  const match = etime.match(/^(?:(\d+)-)?(?:(\d+):)?(\d+):(\d+)$/);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map((n) => Number(n ?? 0));
+  return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+function processInfoOf(pid: number): Promise<ProcessInfo | null> {
+  const [file, args] =
+    process.platform === 'win32'
+      ? ['tasklist', ['/fi', `PID eq ${pid}`, '/fo', 'csv', '/nh']]
+      : ['ps', ['-o', 'etime=', '-o', 'command=', '-p', String(pid)]];
+  return new Promise((resolve) => {
+    execFile(file, args, { timeout: 5000, windowsHide: true }, (err, stdout) => {
+      const output = err ? '' : stdout.toString().trim();
+      if (!output) {
+        resolve(null);
+      } else if (process.platform === 'win32') {
+        resolve({ commandLine: output, startedAt: null });
+      } else {
+        const [etime, ...command] = output.split(/\s+/);
+        const elapsed = parseElapsed(etime);
+        resolve({
+          commandLine: command.join(' '),
+          startedAt: elapsed === null ? null : Date.now() - elapsed,
+        });
+      }
+    });
+  });
+}
+
+// tasklist only reports the image name (quarto.exe, or deno.exe for the
+// server Quarto runs); ps reports the full command line.
+function looksLikeQuartoPreview(commandLine: string): boolean {
+  if (process.platform === 'win32') return /quarto|deno/i.test(commandLine);
+  return /quarto/i.test(commandLine) && /\bpreview\b/.test(commandLine);
+}
+
+export async function findOrphanedPreviews(records: RecordedPreview[]): Promise<OrphanedPreview[]> {
+  const orphans: OrphanedPreview[] = [];
+  for (const record of records) {
+    if (!isAlive(record.pid)) continue;
+    const info = await processInfoOf(record.pid);
+    if (!info || !looksLikeQuartoPreview(info.commandLine)) continue;
+    if (info.startedAt === null) {
+      orphans.push({ ...record, verified: false });
+    } else if (Math.abs(info.startedAt - record.startedAt) <= START_TOLERANCE_MS) {
+      orphans.push({ ...record, verified: true });
+    }
+    // Otherwise a Quarto preview started at another time: not ours.
+  }
+  return orphans;
+}
+
+export function killOrphanedPreviews(orphans: RecordedPreview[]): void {
+  for (const orphan of orphans) killPidTree(orphan.pid);
+}
+
+export class OrphanedPreviewsModal extends Modal {
+  constructor(
+    app: App,
+    private orphans: OrphanedPreview[],
+    private onDecide: (kill: boolean) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Quarto previews still running' });
+    contentEl.createEl('p', {
+      text:
+        'These preview servers were started before Obsidian last quit and were never stopped. ' +
+        'They keep serving and re-rendering in the background.',
+      cls: 'setting-item-description',
+    });
+    const list = contentEl.createEl('ul');
+    for (const orphan of this.orphans) {
+      list.createEl('li', {
+        text:
+          `${orphan.sourcePath} (PID ${orphan.pid}, started ${new Date(orphan.startedAt).toLocaleString()})` +
+          (orphan.verified ? '' : ' — could not confirm this process is the preview'),
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText('Leave running').onClick(() => {
+          this.close();
+          this.onDecide(false);
+        }),
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('Stop them')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onDecide(true);
+          }),
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
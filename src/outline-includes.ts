@@ -0,0 +1,92 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { QmdCell, QmdHeading, parseQmdBlocks } from './outline';
+
+// --- Included files in the outline ----------------------------------------
+//
+// A book chapter is often little more than a list of
+// `{{< include _part.qmd >}}` shortcodes; its own headings are a fraction
+// of what the reader sees. resolveOutline expands each include where it
+// stands, recursively, so the outline shows the document as Quarto
+// assembles it. Include paths are relative to the file that contains the
+// shortcode; a leading / starts at the project root (the vault root outside
+// a project). An include that cannot be read, or that would include a file
+// already being expanded, becomes an issue entry rather than an error.
+
+// Deep enough for any real book; stops runaway nesting that is not a cycle
+// by path (e.g. symlinks).
+const MAX_INCLUDE_DEPTH = 8;
+
+// Where an entry comes from. `line` (on the entry itself) is in `file`;
+// `at` is the line of the outlined file it stands at — its own line, or
+// that of the outermost include shortcode that pulled it in.
+interface OutlineSource {
+  file: TFile;
+  at: number;
+  // Paths of the files whose includes led here, the outlined file first;
+  // empty for the outlined file's own entries.
+  includedVia: string[];
+}
+
+export interface OutlineHeading extends QmdHeading, OutlineSource {}
+
+export interface OutlineCell extends QmdCell, OutlineSource {}
+
+// `file` is the file with the include shortcode.
+export interface OutlineIssue extends OutlineSource {
+  line: number;
+  target: string;
+  reason: 'missing' | 'cycle' | 'depth';
+}
+
+export type OutlineEntry =
+  | ({ kind: 'heading' } & OutlineHeading)
+  | ({ kind: 'cell' } & OutlineCell)
+  | ({ kind: 'issue' } & OutlineIssue);
+
+// Vault path an include target refers to, or null when it points outside
+// the vault.
+export function includeTargetPath(from: TFile, target: string, projectRoot: string): string | null {
+  const base = target.startsWith('/') ? projectRoot : from.parent?.path ?? '';
+  const joined = path.posix.normalize(path.posix.join(base === '/' ? '' : base, target.replace(/^\/+/, '')));
+  // `..` or `../x` leaves the vault; `..notes/x` does not.
+  if (joined === '..' || joined.startsWith('../')) return null;
+  return normalizePath(joined);
+}
+
+// `content` is the outlined file's live editor text; included files are
+// read from the vault.
+export async function resolveOutline(
+  app: App,
+  file: TFile,
+  content: string,
+  projectRoot: string,
+  chain: string[] = [],
+  at: number | null = null
+): Promise<OutlineEntry[]> {
+  const entries: OutlineEntry[] = [];
+  const expanding = [...chain, file.path];
+  for (const block of parseQmdBlocks(content)) {
+    if (block.kind === 'heading' || block.kind === 'cell') {
+      entries.push({ ...block, file, at: at ?? block.line, includedVia: chain });
+      continue;
+    }
+    const issue = (reason: OutlineIssue['reason']): OutlineEntry =>
+      ({ kind: 'issue', file, at: at ?? block.line, line: block.line, target: block.target, reason, includedVia: chain });
+    const targetPath = includeTargetPath(file, block.target, projectRoot);
+    const target = targetPath ? app.vault.getAbstractFileByPath(targetPath) : null;
+    if (!(target instanceof TFile)) {
+      entries.push(issue('missing'));
+    } else if (expanding.includes(target.path)) {
+      entries.push(issue('cycle'));
+    } else if (expanding.length > MAX_INCLUDE_DEPTH) {
+      entries.push(issue('depth'));
+    } else {
+      const included = await app.vault.cachedRead(target);
+      entries.push(
+        ...(await resolveOutline(app, target, included, projectRoot, expanding, at ?? block.line))
+      );
+    }
+  }
+  return entries;
+}
@@ -1,5 +1,9 @@
-import { ItemView, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { ItemView, MarkdownView, Menu, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
 import type QmdAsMdPlugin from './main';
+import { OutlineEntry, resolveOutline } from './outline-includes';
+import { profileConfigFor } from './profiles';
+import { readSectionNumbering, sectionNumbers } from './section-numbers';
+import { moveSection, sectionRange } from './section-move';
 
 // --- Quarto outline -------------------------------------------------------
 //
@@ -11,25 +15,126 @@ import type QmdAsMdPlugin from './main';
 // are intentionally not supported, they are vanishingly rare in Quarto and
 // the --- form collides with YAML/frontmatter syntax. The scan skips the
 // YAML frontmatter block and fenced code blocks (``` / ~~~) so a `#` line
-// inside an R/Python cell is not mistaken for a heading.
+// inside an R/Python cell is not mistaken for a heading; executable cells
+// are listed as cells instead. Include shortcodes are picked up by the same
+// scan and expanded by outline-includes.ts.
 
 export const QMD_OUTLINE_VIEW = 'qmd-outline-view';
 
-interface QmdHeading {
+export interface QmdHeading {
   level: number;
   text: string;
   line: number; // 0-based line index in the source
+  // From a trailing Pandoc attribute block, `{#sec-methods .unnumbered
+  // key=value}`: the explicit id if any, the classes (`{-}` counts as
+  // .unnumbered) and the key-value pairs.
+  id: string | null;
+  classes: string[];
+  attributes: Record<string, string>;
 }
 
-function parseQmdHeadings(content: string): QmdHeading[] {
-  const lines = content.split(/\r?\n/);
+export interface HeadingAttributes {
+  id: string | null;
+  classes: string[];
+  attributes: Record<string, string>;
+}
+
+const ATTRIBUTE_RE = /#([^\s}]+)|\.([^\s}]+)|([\w.:-]+)=(?:"([^"]*)"|'([^']*)'|([^\s}]+))|(^|\s)-(?=\s|$)/g;
+
+// The inside of an attribute block. The last #id wins, as in Pandoc.
+export function parseHeadingAttributes(inner: string): HeadingAttributes {
+  const parsed: HeadingAttributes = { id: null, classes: [], attributes: {} };
+  for (const match of inner.matchAll(ATTRIBUTE_RE)) {
+    if (match[1]) parsed.id = match[1];
+    else if (match[2]) parsed.classes.push(match[2]);
+    else if (match[3]) parsed.attributes[match[3]] = match[4] ?? match[5] ?? match[6];
+    else parsed.classes.push('unnumbered');
+  }
+  return parsed;
+}
+
+// An `{{< include path >}}` shortcode on a line of its own, where Quarto
+// splices in the named file.
+export interface QmdInclude {
+  target: string;
+  line: number;
+}
+
+// An executable cell (```{r}, ```{python}, ...) with what identifies it:
+// the label from `#| label:` (or knitr's `{r label}` header) and the
+// caption from `#| fig-cap:` / `#| tbl-cap:`. fig- / tbl- labels make the
+// cell a cross-referenceable figure / table; a caption alone does too.
+export type QmdCellKind = 'figure' | 'table' | 'cell';
+
+export interface QmdCell {
+  cellKind: QmdCellKind;
+  language: string;
+  label: string | null;
+  caption: string | null;
+  line: number; // the opening fence
+}
+
+export type QmdBlock =
+  | ({ kind: 'heading' } & QmdHeading)
+  | ({ kind: 'include' } & QmdInclude)
+  | ({ kind: 'cell' } & QmdCell);
+
+// ```{r}, ```{python echo=FALSE}, ```{r setup, include=FALSE} — but not
+// ```{.python} (a display block) or ```{{r}} (escaped).
+const CELL_INFO_RE = /^\{([A-Za-z][\w-]*)(?:[\s,]+([^}]*))?\}\s*$/;
+// `#| key: value` (`//|` in OJS / JavaScript cells, `--|` in SQL).
+const CELL_OPTION_RE = /^\s*(?:#|\/\/|--)\|\s*([\w.-]+)\s*:\s*(.*?)\s*$/;
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+function cellKindOf(cell: QmdCell): QmdCellKind {
+  if (cell.label?.startsWith('fig-')) return 'figure';
+  if (cell.label?.startsWith('tbl-')) return 'table';
+  return cell.cellKind;
+}
+
+// The knitr chunk header: `{r label, fig.cap="..."}`. The first bare token
+// is the label.
+function cellFromInfo(language: string, rest: string | undefined, line: number): QmdCell {
+  const cell: QmdCell = { cellKind: 'cell', language, label: null, caption: null, line };
+  if (!rest) return cell;
+  const first = rest.split(',')[0].trim();
+  if (first && !first.includes('=')) cell.label = unquote(first);
+  const cap = rest.match(/\b(fig|tab)\.cap\s*=\s*(["'])(.*?)\2/);
+  if (cap) {
+    cell.caption = cap[3];
+    cell.cellKind = cap[1] === 'fig' ? 'figure' : 'table';
+  }
+  return cell;
+}
+
+const INCLUDE_RE = /^\s*\{\{<\s*include\s+(?:"([^"]+)"|'([^']+)'|(\S+))\s*>\}\}\s*$/;
+
+export function parseQmdHeadings(content: string): QmdHeading[] {
   const headings: QmdHeading[] = [];
+  for (const block of parseQmdBlocks(content)) {
+    if (block.kind === 'heading') {
+      const { level, text, line, id, classes, attributes } = block;
+      headings.push({ level, text, line, id, classes, attributes });
+    }
+  }
+  return headings;
+}
+
+// Headings, include shortcodes and executable cells, in document order.
+export function parseQmdBlocks(content: string): QmdBlock[] {
+  const lines = content.split(/\r?\n/);
+  const blocks: QmdBlock[] = [];
   let inFrontmatter = false;
   // Open code-fence state. Per CommonMark, a fence closes only on the same
   // marker char with a run at least as long as the opener — so a longer
   // ```` inside a ``` block, or a ~~~ inside a ``` block, does not close it.
   let fenceMarker: string | null = null; // '`' or '~' while inside a code block
   let fenceLength = 0; // length of the run that opened the current block
+  // The executable cell being read, while its leading `#|` lines last.
+  let openCell: QmdCell | null = null;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -46,29 +151,67 @@ function parseQmdHeadings(content: string): QmdHeading[] {
 
     // Fenced code block: a run of >=3 backticks or tildes, up to 3 spaces
     // of indent.
-    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})\s*(.*)$/);
     if (fence) {
       const run = fence[1];
       const marker = run[0];
       if (fenceMarker === null) {
         fenceMarker = marker;
         fenceLength = run.length;
+        const info = fence[2].match(CELL_INFO_RE);
+        if (info) {
+          const cell: { kind: 'cell' } & QmdCell = { kind: 'cell', ...cellFromInfo(info[1], info[2], i) };
+          cell.cellKind = cellKindOf(cell);
+          blocks.push(cell);
+          openCell = cell;
+        }
       } else if (marker === fenceMarker && run.length >= fenceLength) {
         fenceMarker = null;
         fenceLength = 0;
+        openCell = null;
       }
       continue;
     }
-    if (fenceMarker !== null) continue;
+    if (fenceMarker !== null) {
+      const option = openCell ? line.match(CELL_OPTION_RE) : null;
+      if (openCell && option) {
+        const [, key, value] = option;
+        if (key === 'label') openCell.label = unquote(value);
+        if (key === 'fig-cap' || key === 'tbl-cap') {
+          openCell.caption = unquote(value) || openCell.caption;
+          openCell.cellKind = key === 'fig-cap' ? 'figure' : 'table';
+        }
+        openCell.cellKind = cellKindOf(openCell);
+      } else {
+        openCell = null; // options only lead the cell
+      }
+      continue;
+    }
+
+    const include = line.match(INCLUDE_RE);
+    if (include) {
+      blocks.push({ kind: 'include', target: include[1] ?? include[2] ?? include[3], line: i });
+      continue;
+    }
 
     const h = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*$/);
     if (h) {
-      // Drop a trailing pandoc/quarto attribute block: `## Title {#id .cls}`.
-      const text = h[2].replace(/\s*\{[^}]*\}\s*$/, '').trim();
-      if (text) headings.push({ level: h[1].length, text, line: i });
+      // Split off a trailing Pandoc attribute block, `## Title {#id .cls}`,
+      // then the optional closing `#` run, `## Title ##`.
+      const attrs = h[2].match(/\s*\{([^}]*)\}$/);
+      const text = (attrs ? h[2].slice(0, attrs.index) : h[2]).replace(/(^|\s+)#+$/, '').trim();
+      if (text) {
+        blocks.push({
+          kind: 'heading',
+          level: h[1].length,
+          text,
+          line: i,
+          ...parseHeadingAttributes(attrs?.[1] ?? ''),
+        });
+      }
     }
   }
-  return headings;
+  return blocks;
 }
 
 export class QmdOutlineView extends ItemView {
@@ -109,17 +252,108 @@ export class QmdOutlineView extends ItemView {
     return null;
   }
 
+  // Opens the file in a new tab when no editor shows it — an included
+  // file usually is not open.
+  private async jumpTo(file: TFile, line: number): Promise<void> {
+    let view = this.markdownViewFor(file);
+    if (!view) {
+      const leaf = this.app.workspace.getLeaf('tab');
+      await leaf.openFile(file);
+      view = leaf.view instanceof MarkdownView ? leaf.view : null;
+      if (!view) return;
+    }
+    const pos = { line, ch: 0 };
+    this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+    view.editor.setCursor(pos);
+    view.editor.scrollIntoView({ from: pos, to: pos }, true);
+    view.editor.focus();
+  }
+
+  // Bumped per render; an older render still reading included files drops
+  // its result.
+  private renderGeneration = 0;
+  // The last resolved outline and the file it describes; collapsing,
+  // filtering and the cursor highlight redraw from it without re-parsing.
+  private entries: OutlineEntry[] = [];
+  private file: TFile | null = null;
+  // Section numbers of the heading entries, when number-sections is on.
+  private numbers = new Map<OutlineEntry, string | null>();
+  // Collapsed sections by OutlineNode key. Kept across re-renders (edits), not
+  // across files.
+  private collapsed = new Set<string>();
+  private filter = '';
+  private activeItem: HTMLElement | null = null;
+  private itemByEntry = new Map<OutlineEntry, HTMLElement>();
+
+  // Built once: a re-render must not take focus from the filter box.
+  private toolbarEl: HTMLElement | null = null;
+  private cellsButton: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+  // The heading being dragged, and the item showing where it would land.
+  private dragged: OutlineEntry | null = null;
+  private dropItem: HTMLElement | null = null;
+
   render(): void {
+    void this.renderOutline();
+  }
+
+  private ensureLayout(): HTMLElement {
+    if (this.listEl) return this.listEl;
     const container = this.contentEl;
     container.empty();
     container.addClass('qmd-outline');
+    this.toolbarEl = container.createDiv({ cls: 'qmd-outline-toolbar' });
+    this.buildToolbar(this.toolbarEl);
+    this.listEl = container.createDiv({ cls: 'qmd-outline-list' });
+    return this.listEl;
+  }
+
+  private showEmpty(text: string): void {
+    const list = this.ensureLayout();
+    list.empty();
+    list.createDiv({ cls: 'qmd-outline-empty', text });
+    this.entries = [];
+    this.itemByEntry.clear();
+    this.activeItem = null;
+  }
+
+  private buildToolbar(toolbar: HTMLElement): void {
+    const filter = toolbar.createEl('input', {
+      cls: 'qmd-outline-filter',
+      attr: { type: 'search', placeholder: 'Filter headings…', 'aria-label': 'Filter headings' },
+    });
+    filter.addEventListener('input', () => {
+      this.filter = filter.value.trim().toLowerCase();
+      this.drawList();
+    });
+
+    const button = (icon: string, label: string, onClick: () => void): HTMLElement => {
+      const el = toolbar.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+      setIcon(el, icon);
+      el.addEventListener('click', onClick);
+      return el;
+    };
+    button('chevrons-down-up', 'Collapse all', () => {
+      for (const node of buildTree(this.entries)) collectKeys(node, this.collapsed);
+      this.drawList();
+    });
+    button('chevrons-up-down', 'Expand all', () => {
+      this.collapsed.clear();
+      this.drawList();
+    });
+    this.cellsButton = button('square-code', 'Hide code cells', () => {
+      this.plugin.settings.outlineShowCells = !this.plugin.settings.outlineShowCells;
+      void this.plugin.saveSettings();
+      this.drawList();
+    });
+  }
+
+  private async renderOutline(): Promise<void> {
+    const generation = ++this.renderGeneration;
 
     const file = this.plugin.lastActiveQuartoFile;
     if (!file) {
-      container.createDiv({
-        cls: 'qmd-outline-empty',
-        text: 'No Quarto (.qmd) file is active.',
-      });
+      this.showEmpty('No Quarto (.qmd) file is active.');
       return;
     }
 
@@ -127,53 +361,340 @@ export class QmdOutlineView extends ItemView {
     // clicking inside this sidebar makes it the active leaf.
     const mdView = this.markdownViewFor(file);
     if (!mdView) {
-      container.createDiv({
-        cls: 'qmd-outline-empty',
-        text: `Open ${file.name} to see its outline.`,
-      });
+      this.showEmpty(`Open ${file.name} to see its outline.`);
       return;
     }
 
-    const headings = parseQmdHeadings(mdView.editor.getValue());
-    if (headings.length === 0) {
-      container.createDiv({
+    const config = this.plugin.quartoProjectConfigFor(file);
+    const projectRoot = config?.parent && config.parent.path !== '/' ? config.parent.path : '';
+    const content = mdView.editor.getValue();
+    const profile = config ? this.plugin.activeProfileFor(file) : null;
+    const [entries, numbering] = await Promise.all([
+      resolveOutline(this.app, file, content, projectRoot),
+      readSectionNumbering(
+        this.app,
+        content,
+        config,
+        config && profile ? profileConfigFor(config, profile) : null
+      ),
+    ]);
+    if (generation !== this.renderGeneration) return;
+    if (entries.length === 0) {
+      this.showEmpty('No headings in this file.');
+      return;
+    }
+
+    if (this.file?.path !== file.path) this.collapsed.clear();
+    this.file = file;
+    this.entries = entries;
+    // Included headings count: Quarto numbers the document as assembled.
+    const headings = entries.filter((entry) => entry.kind === 'heading');
+    const numbers = sectionNumbers(headings, numbering);
+    this.numbers = new Map(headings.map((heading, i) => [heading, numbers[i]]));
+    this.drawList();
+  }
+
+  private drawList(): void {
+    const list = this.ensureLayout();
+    const showCells = this.plugin.settings.outlineShowCells;
+    if (this.cellsButton) {
+      this.cellsButton.toggleClass('is-active', showCells);
+      this.cellsButton.setAttribute('aria-label', showCells ? 'Hide code cells' : 'Show code cells');
+    }
+    if (!this.file) return;
+
+    list.empty();
+    this.itemByEntry.clear();
+    this.activeItem = null;
+    const visible = showCells ? this.entries : this.entries.filter((entry) => entry.kind !== 'cell');
+    let nodes = buildTree(visible);
+    // While filtering, matches show with their ancestors regardless of
+    // what is collapsed.
+    const filtering = this.filter !== '';
+    if (filtering) nodes = filterTree(nodes, this.filter);
+    if (nodes.length === 0) {
+      list.createDiv({
         cls: 'qmd-outline-empty',
-        text: 'No headings in this file.',
+        text: filtering ? 'No headings match the filter.' : 'No headings in this file.',
       });
       return;
     }
+    for (const node of nodes) this.drawNode(list, node, 0, filtering);
+    this.highlightCursor();
+  }
 
-    const list = container.createDiv({ cls: 'qmd-outline-list' });
-    for (const heading of headings) {
-      const item = list.createDiv({
-        cls: 'qmd-outline-item',
-        text: heading.text,
-        // Keyboard-accessible: focusable, announced as a link, and the
-        // keydown handler below makes Enter/Space activate it.
-        attr: { tabindex: '0', role: 'link' },
+  // Cells and include issues sit one level below the heading they follow.
+  private drawNode(parent: HTMLElement, node: OutlineNode, sectionLevel: number, expandAll: boolean): void {
+    const { entry } = node;
+    const item = parent.createDiv({
+      cls: 'qmd-outline-item',
+      // Keyboard-accessible: focusable, announced as a link, and the
+      // keydown handler below makes Enter/Space activate it.
+      attr: { tabindex: '0', role: 'link' },
+    });
+    this.itemByEntry.set(entry, item);
+    // Indentation is driven by CSS off this attribute — no inline styles.
+    item.dataset.level = String(
+      entry.kind === 'heading' ? entry.level : Math.min(sectionLevel + 1, 6)
+    );
+
+    const collapsed = !expandAll && this.collapsed.has(node.key);
+    const toggle = item.createSpan({ cls: 'qmd-outline-toggle' });
+    if (node.children.length > 0) {
+      setIcon(toggle, collapsed ? 'chevron-right' : 'chevron-down');
+      toggle.setAttribute('aria-label', collapsed ? 'Expand' : 'Collapse');
+      toggle.addEventListener('click', (evt) => {
+        // Toggling is not navigating.
+        evt.stopPropagation();
+        if (this.collapsed.has(node.key)) this.collapsed.delete(node.key);
+        else this.collapsed.add(node.key);
+        this.drawList();
       });
-      // Indentation is driven by CSS off this attribute — no inline styles.
-      item.dataset.level = String(heading.level);
-
-      const jumpTo = () => {
-        // Resolve the editor by file, not by "active leaf" — the click
-        // itself just moved focus to this sidebar.
-        const view = this.markdownViewFor(file);
-        if (!view) return;
-        const pos = { line: heading.line, ch: 0 };
-        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
-        view.editor.setCursor(pos);
-        view.editor.scrollIntoView({ from: pos, to: pos }, true);
-        view.editor.focus();
-      };
-
-      item.addEventListener('click', jumpTo);
-      item.addEventListener('keydown', (evt) => {
-        if (evt.key === 'Enter' || evt.key === ' ') {
+    }
+
+    if (entry.kind === 'heading') {
+      const number = this.numbers.get(entry);
+      if (number) item.createSpan({ cls: 'qmd-outline-number', text: number });
+      item.createSpan({ cls: 'qmd-outline-text', text: entry.text });
+      const id = entry.id;
+      if (id?.startsWith('sec-')) {
+        item.addEventListener('contextmenu', (evt) => {
           evt.preventDefault();
-          jumpTo();
-        }
-      });
+          this.showHeadingMenu(evt, id);
+        });
+      }
+    } else if (entry.kind === 'cell') {
+      item.addClass('qmd-outline-cell');
+      item.dataset.cellKind = entry.cellKind;
+      const icon = item.createSpan({ cls: 'qmd-outline-cell-icon' });
+      setIcon(icon, CELL_ICONS[entry.cellKind]);
+      item.createSpan({ cls: 'qmd-outline-text', text: cellText(entry) });
+      item.createSpan({ cls: 'qmd-outline-cell-lang', text: entry.language });
+    } else {
+      item.addClass('qmd-outline-issue');
+      item.createSpan({ cls: 'qmd-outline-text', text: issueText(entry) });
+    }
+    if (entry.kind !== 'issue' && entry.includedVia.length > 0) {
+      item.addClass('qmd-outline-included');
+      item.setAttribute('aria-label', `From ${entry.file.path}`);
+    }
+
+    // Resolve the editor by file, not by "active leaf" — the click
+    // itself just moved focus to this sidebar.
+    const jumpTo = () => void this.jumpTo(entry.file, entry.line);
+    item.addEventListener('click', jumpTo);
+    item.addEventListener('keydown', (evt) => {
+      if (evt.key === 'Enter' || evt.key === ' ') {
+        evt.preventDefault();
+        jumpTo();
+      }
+    });
+
+    if (entry.kind === 'heading' && entry.includedVia.length === 0) {
+      this.makeDraggable(item, entry);
+    }
+
+    if (node.children.length === 0 || collapsed) return;
+    const children = parent.createDiv({ cls: 'qmd-outline-children' });
+    const level = entry.kind === 'heading' ? entry.level : sectionLevel;
+    for (const child of node.children) this.drawNode(children, child, level, expandAll);
+  }
+
+  // Quarto cross-references a section as @sec-id; the rendered document
+  // turns that into "Section 2.1" with a link.
+  private showHeadingMenu(evt: MouseEvent, id: string): void {
+    const menu = new Menu();
+    menu.addItem((item) =>
+      item
+        .setTitle('Copy cross-reference')
+        .setIcon('at-sign')
+        .onClick(() => this.copyCrossReference(id))
+    );
+    menu.showAtMouseEvent(evt);
+  }
+
+  private copyCrossReference(id: string): void {
+    const ref = `@${id}`;
+    navigator.clipboard.writeText(ref).then(
+      () => new Notice(`Copied ${ref}`),
+      (err) => {
+        console.error('[qmd-as-md] Failed to copy cross-reference:', err);
+        new Notice('Could not copy the cross-reference.');
+      }
+    );
+  }
+
+  // Headings of the outlined file itself can be dragged onto one another:
+  // dropped on the upper half of a heading, the section lands before it;
+  // on the lower half, after that heading's whole section. Headings from
+  // included files live in other files and stay put.
+  private makeDraggable(item: HTMLElement, entry: OutlineEntry): void {
+    item.draggable = true;
+    item.addEventListener('dragstart', (evt) => {
+      this.dragged = entry;
+      item.addClass('is-dragging');
+      if (evt.dataTransfer) {
+        evt.dataTransfer.effectAllowed = 'move';
+        evt.dataTransfer.setData('text/plain', entryText(entry));
+      }
+    });
+    item.addEventListener('dragend', () => {
+      item.removeClass('is-dragging');
+      this.dragged = null;
+      this.showDropTarget(null, false);
+    });
+    item.addEventListener('dragover', (evt) => {
+      if (!this.dragged || this.dragged === entry) return;
+      evt.preventDefault();
+      if (evt.dataTransfer) evt.dataTransfer.dropEffect = 'move';
+      this.showDropTarget(item, this.dropsAfter(item, evt));
+    });
+    item.addEventListener('dragleave', (evt) => {
+      if (!item.contains(evt.relatedTarget as Node | null)) this.showDropTarget(null, false);
+    });
+    item.addEventListener('drop', (evt) => {
+      const dragged = this.dragged;
+      this.showDropTarget(null, false);
+      if (!dragged || dragged === entry) return;
+      evt.preventDefault();
+      this.dropSection(dragged.line, entry.line, this.dropsAfter(item, evt));
+    });
+  }
+
+  private dropsAfter(item: HTMLElement, evt: DragEvent): boolean {
+    const rect = item.getBoundingClientRect();
+    return evt.clientY > rect.top + rect.height / 2;
+  }
+
+  private showDropTarget(item: HTMLElement | null, after: boolean): void {
+    if (this.dropItem && this.dropItem !== item) {
+      this.dropItem.removeClass('qmd-outline-drop-before', 'qmd-outline-drop-after');
+    }
+    this.dropItem = item;
+    item?.toggleClass('qmd-outline-drop-before', !after);
+    item?.toggleClass('qmd-outline-drop-after', after);
+  }
+
+  private dropSection(from: number, onto: number, after: boolean): void {
+    const view = this.file ? this.markdownViewFor(this.file) : null;
+    if (!view) return;
+    let target = onto;
+    if (after) {
+      const range = sectionRange(view.editor.getValue(), onto);
+      if (!range) return;
+      target = range.to;
+    }
+    // The editor-change that follows re-renders the outline.
+    if (!moveSection(view.editor, from, target)) {
+      new Notice('The section cannot be moved there.');
+    }
+  }
+
+  // Highlight the innermost heading containing the editor cursor — the
+  // last one at or above it — or, when its section is collapsed, the
+  // nearest visible ancestor. Called on every cursor move; only toggles a
+  // class, and scrolls only when the highlighted item changes.
+  highlightCursor(): void {
+    if (!this.file) return;
+    const view = this.markdownViewFor(this.file);
+    if (!view) return;
+    const cursorLine = view.editor.getCursor().line;
+    const headings = this.entries.filter((entry) => entry.kind === 'heading');
+    let current: OutlineEntry | null = null;
+    for (const heading of headings) {
+      if (heading.at > cursorLine) break;
+      current = heading;
+    }
+    let item: HTMLElement | null = null;
+    if (current) {
+      const index = headings.indexOf(current);
+      // Walk up through enclosing headings until one is drawn.
+      let level = Infinity;
+      for (let i = index; i >= 0 && !item; i--) {
+        const heading = headings[i];
+        if (heading.kind !== 'heading' || heading.level >= level) continue;
+        level = heading.level;
+        item = this.itemByEntry.get(heading) ?? null;
+      }
+    }
+    if (item === this.activeItem) return;
+    this.activeItem?.removeClass('is-active');
+    this.activeItem = item;
+    if (item) {
+      item.addClass('is-active');
+      item.scrollIntoView({ block: 'nearest' });
+    }
+  }
+}
+
+interface OutlineNode {
+  entry: OutlineEntry;
+  // Stable across edits that move lines: file, text and occurrence.
+  key: string;
+  children: OutlineNode[];
+}
+
+function entryText(entry: OutlineEntry): string {
+  if (entry.kind === 'heading') return entry.text;
+  return entry.kind === 'cell' ? cellText(entry) : issueText(entry);
+}
+
+// Headings nest by level; cells and include issues belong to the heading
+// above them.
+function buildTree(entries: OutlineEntry[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: { level: number; node: OutlineNode }[] = [];
+  const seen = new Map<string, number>();
+  for (const entry of entries) {
+    const base = `${entry.file.path}\u0000${entry.kind}\u0000${entryText(entry)}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    const node: OutlineNode = { entry, key: `${base}\u0000${occurrence}`, children: [] };
+    if (entry.kind === 'heading') {
+      while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+    if (entry.kind === 'heading') stack.push({ level: entry.level, node });
+  }
+  return roots;
+}
+
+// Nodes whose text contains the query, with the ancestors leading to them.
+function filterTree(nodes: OutlineNode[], query: string): OutlineNode[] {
+  const kept: OutlineNode[] = [];
+  for (const node of nodes) {
+    const children = filterTree(node.children, query);
+    if (children.length > 0 || entryText(node.entry).toLowerCase().includes(query)) {
+      kept.push({ ...node, children });
     }
   }
+  return kept;
+}
+
+function collectKeys(node: OutlineNode, keys: Set<string>): void {
+  if (node.children.length === 0) return;
+  keys.add(node.key);
+  for (const child of node.children) collectKeys(child, keys);
+}
+
+const CELL_ICONS: Record<QmdCellKind, string> = {
+  figure: 'image',
+  table: 'table',
+  cell: 'code',
+};
+
+function cellText(cell: QmdCell): string {
+  if (cell.label && cell.caption) return `${cell.label}: ${cell.caption}`;
+  return cell.label ?? cell.caption ?? 'Unlabelled cell';
+}
+
+function issueText(entry: OutlineEntry & { kind: 'issue' }): string {
+  switch (entry.reason) {
+    case 'missing':
+      return `Include not found: ${entry.target}`;
+    case 'cycle':
+      return `Include cycle: ${entry.target}`;
+    case 'depth':
+      return `Includes nested too deep: ${entry.target}`;
+  }
 }
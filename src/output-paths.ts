@@ -0,0 +1,83 @@
+import { App, TFile, normalizePath, parseYaml } from 'obsidian';
+import { existsSync } from 'fs';
+import * as path from 'path';
+
+// --- Quarto output paths --------------------------------------------------
+//
+// Quarto decides where a render lands: next to the source for a standalone
+// file, under `project: output-dir:` (e.g. _output, _site, _book) inside a
+// project. It reports the result on an "Output created: <path>" line, where
+// <path> is absolute or relative — relative to the working directory for a
+// single-file render, but to the project root for some project layouts.
+// These helpers turn either form back into a vault path so the plugin can
+// open the artefact Obsidian actually sees, instead of assuming
+// `<basename>.pdf` next to the source.
+
+// Read `project: output-dir:` from a _quarto.yml, letting the active
+// profile's _quarto-<profile>.yml override it the way Quarto merges them.
+// Null when unset or the file does not parse — callers fall back to "next
+// to the source".
+export async function readProjectOutputDir(
+  app: App,
+  config: TFile,
+  profileConfig: TFile | null = null
+): Promise<string | null> {
+  const fromProfile = profileConfig ? await readOutputDirFrom(app, profileConfig) : null;
+  return fromProfile ?? (await readOutputDirFrom(app, config));
+}
+
+async function readOutputDirFrom(app: App, config: TFile): Promise<string | null> {
+  try {
+    const parsed = parseYaml(await app.vault.cachedRead(config)) as unknown;
+    const project = (parsed as { project?: unknown } | null)?.project;
+    const outputDir = (project as { 'output-dir'?: unknown } | null | undefined)?.['output-dir'];
+    return typeof outputDir === 'string' && outputDir.trim() ? outputDir.trim() : null;
+  } catch (err) {
+    console.warn(`[qmd-as-md] Could not read output-dir from ${config.path}:`, err);
+    return null;
+  }
+}
+
+// Vault-relative path for an absolute filesystem path, or null when the
+// path lies outside the vault (Obsidian cannot open it).
+export function vaultPathForFullPath(vaultBasePath: string, fullPath: string): string | null {
+  const rel = path.relative(vaultBasePath, fullPath);
+  // `..` or `../x` climbs out of the vault; `..drafts/x` is a folder in it.
+  if (!rel || rel === '..' || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)) return null;
+  return normalizePath(rel.split(path.sep).join('/'));
+}
+
+// Resolve the path from an "Output created:" line to an absolute path.
+// Relative paths are tried against each base directory in order (working
+// directory first, then the project root); the first one that exists on
+// disk wins. Quarto prints the line only after writing the file, so a
+// synchronous existence check is reliable here even though the vault index
+// may not have caught up yet.
+export function resolveReportedOutput(reported: string, baseDirs: string[]): string {
+  const trimmed = reported.trim();
+  if (path.isAbsolute(trimmed)) return path.normalize(trimmed);
+  const candidates = baseDirs.map((dir) => path.resolve(dir, trimmed));
+  return candidates.find((candidate) => existsSync(candidate)) ?? candidates[0];
+}
+
+// Where Quarto will put `<basename>.<ext>` for a source file, before any
+// "Output created:" line has been seen. With an output-dir, Quarto mirrors
+// the source's position relative to the project root inside that directory.
+export function expectedOutputVaultPath(
+  file: TFile,
+  ext: string,
+  projectRoot: string | null,
+  outputDir: string | null
+): string {
+  const outputName = `${file.basename}.${ext}`;
+  const sourceDir = file.parent && file.parent.path !== '/' ? file.parent.path : '';
+  if (projectRoot === null || !outputDir) {
+    return normalizePath(sourceDir ? `${sourceDir}/${outputName}` : outputName);
+  }
+  const relDir = projectRoot && sourceDir.startsWith(`${projectRoot}/`)
+    ? sourceDir.slice(projectRoot.length + 1)
+    : projectRoot
+      ? ''
+      : sourceDir;
+  return normalizePath([projectRoot, outputDir, relDir, outputName].filter(Boolean).join('/'));
+}
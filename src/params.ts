@@ -0,0 +1,157 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { frontMatterOf, parseYamlBlock } from './render-format';
+
+// --- Render parameters ----------------------------------------------------
+//
+// Parameterised Quarto documents declare their inputs in one of two places:
+//
+//   knitr:    front matter `params:`, either `name: default` or the long
+//             form `name: { label: …, value: default }`;
+//   Jupyter:  a code cell tagged `parameters` (`#| tags: [parameters]`)
+//             holding plain `name = default` assignments.
+//
+// declaredParams collects both; `quarto render -P name:value` overrides
+// them. Values are kept as the strings the user typed — Quarto parses the
+// right-hand side of -P as YAML, so `3`, `true` and `east` all work.
+
+export interface RenderParam {
+  name: string;
+  label: string;
+  defaultValue: string;
+}
+
+function stringifyDefault(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+function yamlParams(content: string): RenderParam[] {
+  const params = parseYamlBlock(frontMatterOf(content))?.params;
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return [];
+  return Object.entries(params as Record<string, unknown>).map(([name, raw]) => {
+    // knitr's long form: { label, value, input, ... }
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && 'value' in raw) {
+      const long = raw as { label?: unknown; value?: unknown };
+      return {
+        name,
+        label: typeof long.label === 'string' ? long.label : name,
+        defaultValue: stringifyDefault(long.value),
+      };
+    }
+    return { name, label: name, defaultValue: stringifyDefault(raw) };
+  });
+}
+
+function jupyterParams(content: string): RenderParam[] {
+  const cell = content.match(
+    /^```+\s*\{python[^}]*\}\s*\r?\n((?:#\|.*\r?\n)*?#\|\s*tags:\s*\[[^\]]*\bparameters\b[^\]]*\]\s*\r?\n[\s\S]*?)^```/m
+  );
+  if (!cell) return [];
+  const params: RenderParam[] = [];
+  for (const line of cell[1].split(/\r?\n/)) {
+    const assignment = line.match(/^([A-Za-z_]\w*)\s*=\s*(.+?)\s*(?:#.*)?$/);
+    if (!assignment) continue;
+    // Strip one layer of Python string quotes; -P values are YAML.
+    const value = assignment[2].replace(/^(['"])(.*)\1$/, '$2');
+    params.push({ name: assignment[1], label: assignment[1], defaultValue: value });
+  }
+  return params;
+}
+
+export function declaredParams(content: string): RenderParam[] {
+  const seen = new Set<string>();
+  return [...yamlParams(content), ...jupyterParams(content)].filter((p) => {
+    if (seen.has(p.name)) return false;
+    seen.add(p.name);
+    return true;
+  });
+}
+
+// `-P name:value` pairs for quarto render.
+export function paramArgs(values: Record<string, string>): string[] {
+  return Object.entries(values).flatMap(([name, value]) => ['-P', `${name}:${value}`]);
+}
+
+export class ParamsModal extends Modal {
+  private values: Record<string, string>;
+
+  constructor(
+    app: App,
+    private fileName: string,
+    private params: RenderParam[],
+    remembered: Record<string, string>,
+    private onSubmit: (values: Record<string, string>) => void,
+  ) {
+    super(app);
+    // Remembered values win over declared defaults, but only for params
+    // the document still declares.
+    this.values = Object.fromEntries(
+      params.map((p) => [p.name, remembered[p.name] ?? p.defaultValue]),
+    );
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: `Render ${this.fileName} with parameters` });
+    contentEl.createEl('p', {
+      text: 'Values are read as YAML, so numbers and booleans keep their type.',
+      cls: 'setting-item-description',
+    });
+
+    this.params.forEach((param, index) => {
+      const fallback = `default: ${param.defaultValue || '—'}`;
+      new Setting(contentEl)
+        .setName(param.label)
+        .setDesc(param.label !== param.name ? `${param.name} (${fallback})` : fallback)
+        .addText((text) => {
+          text
+            .setPlaceholder(param.defaultValue)
+            .setValue(this.values[param.name])
+            .onChange((v) => (this.values[param.name] = v));
+          if (index === 0) {
+            text.inputEl.focus();
+            text.inputEl.select();
+          }
+          text.inputEl.addEventListener('keydown', (e) => {
+            // Same rules as the new-file name prompt: ignore IME
+            // composition and modifier combos.
+            if (
+              e.key === 'Enter' &&
+              !e.isComposing &&
+              !e.shiftKey &&
+              !e.metaKey &&
+              !e.ctrlKey &&
+              !e.altKey
+            ) {
+              e.preventDefault();
+              this.submit();
+            }
+          });
+        });
+    });
+
+    new Setting(contentEl).addButton((btn) =>
+      btn
+        .setButtonText('Render')
+        .setCta()
+        .onClick(() => this.submit()),
+    );
+  }
+
+  private submit(): void {
+    const empty = this.params.filter((p) => !this.values[p.name].trim());
+    if (empty.length > 0) {
+      new Notice(`Missing value for: ${empty.map((p) => p.name).join(', ')}`);
+      return;
+    }
+    this.close();
+    this.onSubmit({ ...this.values });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,162 @@
+import { ItemView, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import type QmdAsMdPlugin from './main';
+
+// --- Quarto previews panel ------------------------------------------------
+//
+// Every running `quarto preview` keeps a server (and a port) alive until it
+// is toggled off; with several files previewed it is easy to lose track.
+// This sidebar view lists them all from plugin.activePreviewProcesses — the
+// same registry the status bar reads — with their URL, uptime and the
+// result of the most recent compile, and per-row actions. A project preview
+// is one row for the whole website / book, labelled with its folder.
+// main.ts calls render() whenever a preview starts, stops or compiles; the
+// uptime column ticks on its own so a re-render does not steal hover /
+// focus every second.
+
+export const QMD_PREVIEWS_VIEW = 'qmd-previews-view';
+
+function formatUptime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function portOf(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).port || null;
+  } catch {
+    return null;
+  }
+}
+
+export class QmdPreviewsView extends ItemView {
+  plugin: QmdAsMdPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: QmdAsMdPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return QMD_PREVIEWS_VIEW;
+  }
+
+  getDisplayText(): string {
+    return 'Quarto previews';
+  }
+
+  getIcon(): string {
+    return 'monitor-play';
+  }
+
+  async onOpen(): Promise<void> {
+    this.render();
+    this.registerInterval(window.setInterval(() => this.updateUptimes(), 1000));
+  }
+
+  private updateUptimes(): void {
+    this.contentEl.querySelectorAll<HTMLElement>('.qmd-previews-uptime').forEach((el) => {
+      const startedAt = Number(el.dataset.startedAt);
+      el.setText(`up ${formatUptime(Date.now() - startedAt)}`);
+    });
+  }
+
+  private addRowAction(
+    parent: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: () => void,
+    enabled = true,
+  ): void {
+    const button = parent.createEl('button', {
+      cls: 'clickable-icon qmd-previews-action',
+      attr: { 'aria-label': label },
+    });
+    setIcon(button, icon);
+    button.disabled = !enabled;
+    button.addEventListener('click', onClick);
+  }
+
+  render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('qmd-previews');
+
+    const previews = Array.from(this.plugin.activePreviewProcesses.entries())
+      .sort(([, a], [, b]) => b.runner.startedAt - a.runner.startedAt);
+    if (previews.length === 0) {
+      container.createDiv({
+        cls: 'qmd-previews-empty',
+        text: 'No Quarto previews running.',
+      });
+      return;
+    }
+
+    const toolbar = container.createDiv({ cls: 'qmd-previews-toolbar' });
+    const stopAll = toolbar.createEl('button', { text: 'Stop all' });
+    stopAll.addEventListener('click', () => this.plugin.stopAllPreviews());
+
+    for (const [sourcePath, preview] of previews) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(preview.source.path);
+      const row = container.createDiv({ cls: 'qmd-previews-row' });
+      row.dataset.compile = preview.compile.status;
+
+      const header = row.createDiv({ cls: 'qmd-previews-header' });
+      header.createSpan({
+        cls: 'qmd-previews-file',
+        text: preview.project ? preview.project.root || '/' : sourcePath,
+      });
+      if (preview.project) {
+        header.createSpan({ cls: 'qmd-previews-mode', text: preview.project.type });
+      }
+      header.createSpan({
+        cls: 'qmd-previews-mode',
+        text: preview.mode === 'external' ? 'browser' : 'Obsidian',
+      });
+
+      const port = portOf(preview.url);
+      row.createDiv({
+        cls: 'qmd-previews-url',
+        text: preview.url
+          ? `${preview.url}${port ? ` (port ${port})` : ''}`
+          : 'Waiting for the preview server…',
+      });
+
+      const meta = row.createDiv({ cls: 'qmd-previews-meta' });
+      const uptime = meta.createSpan({ cls: 'qmd-previews-uptime' });
+      uptime.dataset.startedAt = String(preview.runner.startedAt);
+      uptime.setText(`up ${formatUptime(Date.now() - preview.runner.startedAt)}`);
+      const compileText =
+        preview.compile.status === 'ok'
+          ? `compiled ${new Date(preview.compile.at ?? Date.now()).toLocaleTimeString()}`
+          : preview.compile.status === 'error'
+            ? 'last compile failed'
+            : 'compiling…';
+      const compile = meta.createSpan({ cls: 'qmd-previews-compile', text: compileText });
+      if (preview.compile.message) compile.setAttribute('aria-label', preview.compile.message);
+
+      const actions = row.createDiv({ cls: 'qmd-previews-actions' });
+      const url = preview.url;
+      this.addRowAction(actions, 'panel-right', 'Open in Obsidian', () => {
+        if (url) void this.plugin.openPreviewUrl(url, 'obsidian');
+      }, url !== null);
+      this.addRowAction(actions, 'globe', 'Open in browser', () => {
+        if (url) void this.plugin.openPreviewUrl(url, 'external');
+      }, url !== null);
+      if (file instanceof TFile) {
+        this.addRowAction(actions, 'rotate-ccw', 'Restart preview', () => {
+          void this.plugin.restartPreview(file);
+        });
+        this.addRowAction(actions, 'square', 'Stop preview', () => {
+          void this.plugin.stopPreview(file);
+        });
+        this.addRowAction(actions, 'file-text', 'Go to source', () => {
+          void this.plugin.revealSourceFile(file);
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { App, SuggestModal, TFile } from 'obsidian';
+
+// --- Quarto profiles ------------------------------------------------------
+//
+// A Quarto project can carry profile overlays next to its _quarto.yml —
+// `_quarto-draft.yml`, `_quarto-journal.yml` — that `quarto --profile
+// <name>` merges over the base config. The plugin stores the active profile
+// per project (keyed by the _quarto.yml path) in settings; the spawn sites
+// in main.ts turn it into the --profile flag.
+
+const PROFILE_FILE_RE = /^_quarto-(.+)\.ya?ml$/;
+
+// Profile names available next to a project's _quarto.yml, sorted.
+export function quartoProfilesFor(config: TFile): string[] {
+  const profiles = new Set<string>();
+  for (const child of config.parent?.children ?? []) {
+    if (!(child instanceof TFile)) continue;
+    const match = child.name.match(PROFILE_FILE_RE);
+    if (match) profiles.add(match[1]);
+  }
+  return Array.from(profiles).sort((a, b) => a.localeCompare(b));
+}
+
+// The overlay file for a profile, if it exists.
+export function profileConfigFor(config: TFile, profile: string): TFile | null {
+  for (const child of config.parent?.children ?? []) {
+    if (
+      child instanceof TFile &&
+      (child.name === `_quarto-${profile}.yml` || child.name === `_quarto-${profile}.yaml`)
+    ) {
+      return child;
+    }
+  }
+  return null;
+}
+
+// null stands for "no profile" (Quarto's default config only).
+export class ProfileSuggestModal extends SuggestModal<string | null> {
+  constructor(
+    app: App,
+    private profiles: string[],
+    private current: string | null,
+    private onChoose: (profile: string | null) => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Pick a Quarto profile…');
+  }
+
+  getSuggestions(query: string): (string | null)[] {
+    const q = query.toLowerCase();
+    const all: (string | null)[] = [null, ...this.profiles];
+    if (!q) return all;
+    return all.filter((p) => (p ?? 'default').toLowerCase().includes(q));
+  }
+
+  renderSuggestion(profile: string | null, el: HTMLElement): void {
+    const label = profile ?? '(default — no profile)';
+    el.createEl('div', { text: profile === this.current ? `${label}  ✓` : label });
+    el.createEl('small', {
+      text: profile ? `--profile ${profile}` : '_quarto.yml only',
+      cls: 'qmd-preset-desc',
+    });
+  }
+
+  onChooseSuggestion(profile: string | null): void {
+    this.onChoose(profile);
+  }
+}
@@ -0,0 +1,64 @@
+import { App, TFile, parseYaml } from 'obsidian';
+
+// --- Project previews -----------------------------------------------------
+//
+// `quarto preview <file>` renders one page on its own: in a website or book
+// that loses the navigation, the sidebar and cross-chapter references.
+// Running `quarto preview` with no input at the project root serves the
+// whole project instead, with output-dir as the server root. These helpers
+// decide when that applies (`project: type:` is website, book or
+// manuscript) and which page of the served site belongs to a source file.
+
+export type ProjectPreviewType = 'website' | 'book' | 'manuscript';
+
+const PROJECT_PREVIEW_TYPES: readonly string[] = ['website', 'book', 'manuscript'];
+
+// `project: type:` from _quarto.yml, the active profile's
+// _quarto-<profile>.yml taking precedence. Null for default projects,
+// unknown types and files that do not parse.
+export async function readProjectPreviewType(
+  app: App,
+  config: TFile,
+  profileConfig: TFile | null = null
+): Promise<ProjectPreviewType | null> {
+  const fromProfile = profileConfig ? await readTypeFrom(app, profileConfig) : null;
+  const type = fromProfile ?? (await readTypeFrom(app, config));
+  return type && PROJECT_PREVIEW_TYPES.includes(type) ? (type as ProjectPreviewType) : null;
+}
+
+async function readTypeFrom(app: App, config: TFile): Promise<string | null> {
+  try {
+    const parsed = parseYaml(await app.vault.cachedRead(config)) as unknown;
+    const project = (parsed as { project?: unknown } | null)?.project;
+    const type = (project as { type?: unknown } | null | undefined)?.type;
+    return typeof type === 'string' && type.trim() ? type.trim() : null;
+  } catch (err) {
+    console.warn(`[qmd-as-md] Could not read project type from ${config.path}:`, err);
+    return null;
+  }
+}
+
+// Server-relative page for a source file: chapter.qmd → chapter.html,
+// keeping the folders below the project root. A manuscript has one page,
+// the article; its notebooks are embedded in it, so every file maps to the
+// root.
+export function projectPagePath(
+  projectRoot: string,
+  file: TFile,
+  type: ProjectPreviewType
+): string {
+  if (type === 'manuscript') return '';
+  const rel = projectRoot && file.path.startsWith(`${projectRoot}/`)
+    ? file.path.slice(projectRoot.length + 1)
+    : file.path;
+  return rel.replace(/\.[^./]+$/, '.html');
+}
+
+// The page's URL on a running project preview server.
+export function projectPageUrl(serverUrl: string, pagePath: string): string {
+  try {
+    return new URL(`/${pagePath.split('/').map(encodeURIComponent).join('/')}`, serverUrl).href;
+  } catch {
+    return serverUrl;
+  }
+}
@@ -0,0 +1,100 @@
+// --- Quarto project render progress ---------------------------------------
+//
+// `quarto render` run at a project root renders every input file in turn
+// and prints one `[ n/m] path/to/file.qmd` line as it starts each of them
+// (the counter is space-padded to the width of the total). A file counts as
+// finished once the next counter line appears, or the process exits cleanly
+// after the last one. "ERROR:" lines belong to the file currently in
+// progress. "Output created:" lines are collected as-is — for websites and
+// books Quarto only prints them for the final artefacts (index.html, the
+// book PDF), not per page.
+//
+// ProjectRenderProgress only parses; spawning, notices and cancellation stay
+// in main.ts next to the single-file render.
+
+const PROGRESS_LINE_RE = /^\[\s*(\d+)\s*\/\s*(\d+)\s*\]\s+(.+?)\s*$/;
+
+export class ProjectRenderProgress {
+  total = 0;
+  readonly succeeded: string[] = [];
+  readonly failed: string[] = [];
+  readonly outputs: string[] = [];
+  readonly errorLines: string[] = [];
+  private current: string | null = null;
+  private currentIndex = 0;
+  private currentFailed = false;
+
+  // Feed one (ANSI-stripped) line. Returns true when the progress text
+  // changed, so the caller only updates its notice when there is news.
+  handleLine(line: string): boolean {
+    const progress = line.match(PROGRESS_LINE_RE);
+    if (progress) {
+      this.finishCurrent();
+      this.currentIndex = Number(progress[1]);
+      this.total = Number(progress[2]);
+      this.current = progress[3];
+      return true;
+    }
+    if (/^ERROR:/.test(line)) {
+      this.errorLines.push(line);
+      if (this.current && !this.currentFailed) {
+        this.currentFailed = true;
+        this.failed.push(this.current);
+        return true;
+      }
+      return false;
+    }
+    const output = line.match(/Output created:\s*(.+?)\s*$/);
+    if (output) {
+      this.outputs.push(output[1]);
+    }
+    return false;
+  }
+
+  // Settle the file in progress once the process has exited. A clean exit
+  // means the last file finished; anything else means it did not.
+  finish(success: boolean): void {
+    if (this.current && !success && !this.currentFailed) {
+      this.currentFailed = true;
+      this.failed.push(this.current);
+    }
+    this.finishCurrent();
+  }
+
+  progressText(): string {
+    if (!this.current) return 'Rendering Quarto project...';
+    const done = this.succeeded.length + this.failed.length;
+    return `Rendering Quarto project (${done}/${this.total} done)\n[${this.currentIndex}/${this.total}] ${this.current}`;
+  }
+
+  // One notice for the whole run, rather than one per file.
+  summary(exitLabel: string | null): string {
+    const lines: string[] = [];
+    if (exitLabel === null) {
+      lines.push(`Quarto project rendered: ${this.succeeded.length} file${this.succeeded.length === 1 ? '' : 's'}.`);
+    } else {
+      lines.push(`Quarto project render failed (${exitLabel}).`);
+      if (this.total > 0) {
+        lines.push(`Rendered ${this.succeeded.length} of ${this.total} files.`);
+      }
+    }
+    if (this.failed.length > 0) {
+      lines.push(`Failed: ${this.failed.join(', ')}`);
+    }
+    if (this.errorLines.length > 0) {
+      lines.push(...this.errorLines);
+    }
+    if (this.outputs.length > 0) {
+      lines.push(`Output: ${this.outputs.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  private finishCurrent(): void {
+    if (this.current && !this.currentFailed) {
+      this.succeeded.push(this.current);
+    }
+    this.current = null;
+    this.currentFailed = false;
+  }
+}
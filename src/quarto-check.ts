@@ -0,0 +1,229 @@
+import { App, Modal, setIcon } from 'obsidian';
+
+// --- quarto check ---------------------------------------------------------
+//
+// `quarto check` walks through everything a render may need and prints one
+// section per check:
+//
+//   Quarto 1.4.550
+//   [>] Checking versions of quarto binary dependencies...
+//         Pandoc version 3.1.11: OK
+//         Typst version 0.10.0: OK
+//   [>] Checking LaTeX....................OK
+//         Using: TinyTeX
+//   [>] Checking Python 3 installation....OK
+//   [>] Checking R installation...........(None)
+//         Unable to locate an installed version of R.
+//
+// Older releases mark sections with [✓] / [✗] instead of [>]. The report
+// folds those sections into the components a failed render usually trips
+// over. QuartoCheckReport only parses; running the command stays in main.ts.
+
+export type CheckStatus = 'ok' | 'failed' | 'missing' | 'unknown';
+
+interface CheckSection {
+  title: string;
+  status: CheckStatus;
+  details: string[];
+}
+
+export interface CheckComponent {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+const SECTION_RE = /^\[(.)\]\s+Checking\s+(.+?)(?:\.{2,}\s*(.*?))?\s*$/u;
+const DEPENDENCY_RE = /^(\S+(?: \S+)*?) version (\S+):\s*(.+)$/;
+
+function statusFromText(text: string): CheckStatus {
+  if (/^OK\b/i.test(text)) return 'ok';
+  if (/\(None\)|not (?:installed|detected|found)/i.test(text)) return 'missing';
+  if (/ERROR|FAIL/i.test(text)) return 'failed';
+  return 'unknown';
+}
+
+export class QuartoCheckReport {
+  version: string | null = null;
+  private sections: CheckSection[] = [];
+  // "Pandoc version 3.1.11: OK" and friends, keyed by tool name.
+  private dependencies = new Map<string, { version: string; status: CheckStatus }>();
+
+  // Feed one ANSI-stripped line.
+  handleLine(raw: string): void {
+    const line = raw.trim();
+    if (!line) return;
+
+    const quarto = line.match(/^Quarto\s+(\d+(?:\.\d+)+)$/);
+    if (quarto && this.sections.length === 0) {
+      this.version = quarto[1];
+      return;
+    }
+
+    const section = line.match(SECTION_RE);
+    if (section) {
+      const marker = section[1];
+      const trailing = section[3] ?? '';
+      let status = statusFromText(trailing);
+      if (/[x✗×✘]/.test(marker)) status = 'failed';
+      else if (status === 'unknown' && /[✓✔]/.test(marker)) status = 'ok';
+      this.sections.push({ title: section[2], status, details: [] });
+      return;
+    }
+
+    const current = this.sections[this.sections.length - 1];
+    if (!current) return;
+    current.details.push(line);
+
+    const dependency = line.match(DEPENDENCY_RE);
+    if (dependency) {
+      this.dependencies.set(dependency[1].toLowerCase(), {
+        version: dependency[2],
+        status: statusFromText(dependency[3]),
+      });
+      return;
+    }
+    // A section that looked fine can still report trouble further down.
+    const detailStatus = statusFromText(line);
+    if (detailStatus === 'failed' || (detailStatus === 'missing' && current.status !== 'failed')) {
+      current.status = detailStatus;
+    }
+  }
+
+  private find(title: RegExp): CheckSection | null {
+    return this.sections.find((s) => title.test(s.title)) ?? null;
+  }
+
+  private detailValue(section: CheckSection | null, key: string): string | null {
+    const prefix = `${key}:`;
+    const line = section?.details.find((d) => d.startsWith(prefix));
+    return line ? line.slice(prefix.length).trim() : null;
+  }
+
+  private dependencyComponent(name: string): CheckComponent {
+    const dep = this.dependencies.get(name.toLowerCase());
+    return dep
+      ? { name, status: dep.status, detail: `Version ${dep.version}` }
+      : { name, status: 'unknown', detail: 'Not reported' };
+  }
+
+  // Two sections for one engine (installation + engine render): the worse
+  // status wins.
+  private engineComponent(name: string, install: RegExp, render: RegExp): CheckComponent {
+    const installSection = this.find(install);
+    const renderSection = this.find(render);
+    if (!installSection) return { name, status: 'unknown', detail: 'Not reported' };
+    const order: CheckStatus[] = ['failed', 'missing', 'unknown', 'ok'];
+    const statuses = [installSection.status, renderSection?.status ?? 'ok'];
+    const status = order.find((s) => statuses.includes(s)) ?? 'unknown';
+    const version = this.detailValue(installSection, 'Version');
+    const detail =
+      status === 'missing'
+        ? installSection.details.find((d) => statusFromText(d) === 'missing') ??
+          installSection.details[0] ??
+          'Not installed'
+        : [version && `Version ${version}`, this.detailValue(installSection, 'Path')]
+            .filter(Boolean)
+            .join(' · ');
+    return { name, status, detail: detail || (status === 'failed' ? 'Check failed' : '') };
+  }
+
+  components(): CheckComponent[] {
+    const install = this.find(/^Quarto installation/i);
+    const version = this.version ?? this.detailValue(install, 'Version');
+    const quarto: CheckComponent = {
+      name: 'Quarto',
+      status: install?.status === 'failed' ? 'failed' : version ? 'ok' : 'unknown',
+      detail: [version && `Version ${version}`, this.detailValue(install, 'Path')]
+        .filter(Boolean)
+        .join(' · '),
+    };
+
+    const latexSection = this.find(/^LaTeX/i);
+    const latex: CheckComponent = latexSection
+      ? {
+          name: 'LaTeX',
+          status: latexSection.status,
+          detail:
+            [this.detailValue(latexSection, 'Using'), this.detailValue(latexSection, 'Version')]
+              .filter(Boolean)
+              .join(' · ') || (latexSection.details[0] ?? ''),
+        }
+      : { name: 'LaTeX', status: 'unknown', detail: 'Not reported' };
+
+    return [
+      quarto,
+      this.dependencyComponent('Pandoc'),
+      this.dependencyComponent('Typst'),
+      latex,
+      this.engineComponent('Python / Jupyter', /^Python/i, /^Jupyter engine/i),
+      this.engineComponent('R / knitr', /^R installation/i, /^Knitr engine/i),
+    ];
+  }
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  ok: 'check-circle',
+  failed: 'x-circle',
+  missing: 'minus-circle',
+  unknown: 'help-circle',
+};
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  ok: 'OK',
+  failed: 'Failed',
+  missing: 'Not installed',
+  unknown: 'Unknown',
+};
+
+export class QuartoCheckModal extends Modal {
+  constructor(
+    app: App,
+    private report: QuartoCheckReport,
+    private rawOutput: string,
+    private exitCode: number | null,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('qmd-check');
+    contentEl.createEl('h3', { text: 'Quarto installation check' });
+    if (this.exitCode !== 0) {
+      contentEl.createEl('p', {
+        cls: 'qmd-check-exit',
+        text:
+          this.exitCode === null
+            ? 'The check was stopped before it finished.'
+            : `The check exited with code ${this.exitCode}.`,
+      });
+    }
+
+    const list = contentEl.createDiv({ cls: 'qmd-check-list' });
+    for (const component of this.report.components()) {
+      const row = list.createDiv({ cls: 'qmd-check-row' });
+      row.dataset.status = component.status;
+      const icon = row.createSpan({
+        cls: 'qmd-check-icon',
+        attr: { 'aria-label': STATUS_LABELS[component.status] },
+      });
+      setIcon(icon, STATUS_ICONS[component.status]);
+      const text = row.createDiv({ cls: 'qmd-check-text' });
+      text.createDiv({ cls: 'qmd-check-name', text: component.name });
+      text.createDiv({
+        cls: 'qmd-check-detail',
+        text: component.detail || STATUS_LABELS[component.status],
+      });
+    }
+
+    const raw = contentEl.createEl('details', { cls: 'qmd-check-raw' });
+    raw.createEl('summary', { text: 'Full output' });
+    raw.createEl('pre', { text: this.rawOutput || '(no output)' });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
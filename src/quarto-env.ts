@@ -0,0 +1,61 @@
+import * as path from 'path';
+
+// --- Quarto spawn environment --------------------------------------------
+//
+// Every `quarto` the plugin starts (preview, render, project render, the
+// version probe) gets the same environment: Obsidian's own, plus the
+// variables configured in the settings' Environment section. Building it
+// in one place keeps preview and render from drifting apart — a render
+// that finds the right Python while the preview of the same file does not
+// is very hard to diagnose.
+
+export interface EnvVarEntry {
+  key: string;
+  value: string;
+}
+
+export interface QuartoEnvSettings {
+  quartoTypst: string;
+  quartoPython: string;
+  quartoR: string;
+  // Directories prepended to PATH, in order.
+  extraPathEntries: string[];
+  // Any other variables. Rows with an empty key are ignored (the settings
+  // table adds a blank row before the user types into it).
+  envVars: EnvVarEntry[];
+}
+
+// Windows spells it "Path"; setting a second "PATH" key would leave two
+// competing entries in the child's environment.
+function pathKey(env: NodeJS.ProcessEnv): string {
+  return Object.keys(env).find((k) => k.toUpperCase() === 'PATH') ?? 'PATH';
+}
+
+export function buildQuartoEnv(
+  settings: QuartoEnvSettings,
+  base: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...base };
+
+  for (const { key, value } of settings.envVars) {
+    if (key.trim()) env[key.trim()] = value;
+  }
+
+  // The dedicated fields win over a same-named table row: they are the
+  // documented way to set these.
+  const named: [string, string][] = [
+    ['QUARTO_TYPST', settings.quartoTypst],
+    ['QUARTO_PYTHON', settings.quartoPython],
+    ['QUARTO_R', settings.quartoR],
+  ];
+  for (const [key, value] of named) {
+    if (value.trim()) env[key] = value.trim();
+  }
+
+  const extra = settings.extraPathEntries.map((p) => p.trim()).filter(Boolean);
+  if (extra.length > 0) {
+    const key = pathKey(env);
+    env[key] = [...extra, env[key]].filter(Boolean).join(path.delimiter);
+  }
+  return env;
+}
@@ -0,0 +1,175 @@
+import { App, TFile } from 'obsidian';
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { declaredFormats, frontMatterOf, parseYamlBlock } from './render-format';
+
+// --- Quarto installation --------------------------------------------------
+//
+// Obsidian started from a desktop launcher (Dock, Start menu, .desktop file)
+// does not inherit the login shell's PATH, so the default `quarto` setting
+// fails with ENOENT even though Quarto works in a terminal. detectQuarto
+// tries the configured value first, then the PATH a login shell would see,
+// then the places the installers put Quarto, and reports the first binary
+// that answers `--version`. The version is also what the plugin checks
+// before starting a run that needs a newer Quarto (Typst, callout filters).
+
+export interface QuartoInstall {
+  path: string;
+  version: string;
+  source: 'setting' | 'login shell PATH' | 'install location';
+}
+
+// A run that needs a minimum Quarto version, with a user-facing name.
+export interface QuartoRequirement {
+  feature: string;
+  minVersion: string;
+}
+
+const VERSION_TIMEOUT_MS = 10_000;
+const SHELL_TIMEOUT_MS = 5_000;
+
+const TYPST_MIN_VERSION = '1.3';
+// The obsidian-callouts.lua filter from the README emits the callout AST
+// Quarto introduced in 1.3.
+const CALLOUT_FILTER_MIN_VERSION = '1.3';
+const CALLOUT_FILTER_RE = /obsidian-callouts\.lua$/;
+
+const BINARY_NAME = process.platform === 'win32' ? 'quarto.exe' : 'quarto';
+
+function installLocations(): string[] {
+  const home = os.homedir();
+  if (process.platform === 'win32') {
+    const localAppData = process.env.LOCALAPPDATA ?? path.join(home, 'AppData', 'Local');
+    const programFiles = process.env.ProgramFiles ?? 'C:\\Program Files';
+    return [
+      path.join(localAppData, 'Programs', 'Quarto', 'bin'),
+      path.join(programFiles, 'Quarto', 'bin'),
+      path.join(programFiles, 'RStudio', 'resources', 'app', 'bin', 'quarto', 'bin'),
+      path.join(programFiles, 'Posit', 'RStudio', 'resources', 'app', 'bin', 'quarto', 'bin'),
+    ];
+  }
+  return [
+    '/usr/local/bin',
+    '/opt/homebrew/bin',
+    '/Applications/quarto/bin',
+    '/Applications/RStudio.app/Contents/Resources/app/quarto/bin',
+    '/opt/quarto/bin',
+    '/usr/lib/rstudio/resources/app/bin/quarto/bin',
+    '/usr/bin',
+    path.join(home, '.local', 'bin'),
+    path.join(home, 'opt', 'quarto', 'bin'),
+  ];
+}
+
+function execText(
+  file: string,
+  args: string[],
+  timeout: number,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(file, args, { timeout, env, windowsHide: true }, (err, stdout) => {
+      resolve(err ? null : stdout.toString());
+    });
+  });
+}
+
+// `quarto --version` prints a bare "1.4.550"; null when the binary does
+// not run (missing, not executable, hung past the timeout). env is the
+// spawn environment, so extra PATH entries from the settings apply.
+export async function quartoVersionOf(
+  binary: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | null> {
+  const out = await execText(binary, ['--version'], VERSION_TIMEOUT_MS, env);
+  const match = out?.match(/\d+(?:\.\d+)+/);
+  return match ? match[0] : null;
+}
+
+// PATH as a login shell sets it up (~/.zprofile, ~/.bash_profile, …).
+// The markers fence off anything the profile scripts print themselves.
+async function loginShellPath(): Promise<string[]> {
+  if (process.platform === 'win32') return [];
+  const shell = process.env.SHELL || '/bin/sh';
+  const out = await execText(
+    shell,
+    ['-ilc', 'printf "__QMD_PATH__%s__QMD_PATH__" "$PATH"'],
+    SHELL_TIMEOUT_MS
+  );
+  const match = out?.match(/__QMD_PATH__(.*)__QMD_PATH__/);
+  return match ? match[1].split(path.delimiter).filter(Boolean) : [];
+}
+
+export async function detectQuarto(
+  configured: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<QuartoInstall | null> {
+  const setting = configured.trim() || 'quarto';
+  const settingVersion = await quartoVersionOf(setting, env);
+  if (settingVersion) return { path: setting, version: settingVersion, source: 'setting' };
+
+  // An explicit path that does not run is the user's choice; do not
+  // silently swap in a different Quarto behind their back.
+  if (setting.includes('/') || setting.includes('\\')) return null;
+
+  const searches: [QuartoInstall['source'], string[]][] = [
+    ['login shell PATH', await loginShellPath()],
+    ['install location', installLocations()],
+  ];
+  const tried = new Set<string>();
+  for (const [source, dirs] of searches) {
+    for (const dir of dirs) {
+      const candidate = path.join(dir, BINARY_NAME);
+      if (tried.has(candidate) || !existsSync(candidate)) continue;
+      tried.add(candidate);
+      const version = await quartoVersionOf(candidate, env);
+      if (version) return { path: candidate, version, source };
+    }
+  }
+  return null;
+}
+
+// Numeric, component-wise: 1.10 > 1.9. Missing components count as 0.
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function filterNames(meta: Record<string, unknown> | null): string[] {
+  const filters = meta?.filters;
+  if (!Array.isArray(filters)) return [];
+  return filters
+    .map((f) => (typeof f === 'string' ? f : (f as { path?: unknown } | null)?.path))
+    .filter((f): f is string => typeof f === 'string');
+}
+
+// What a render (toFormat set) or a render / preview of the declared
+// formats (toFormat undefined) of this file needs from Quarto.
+export async function quartoRequirementsFor(
+  app: App,
+  file: TFile,
+  projectConfig: TFile | null,
+  toFormat?: string
+): Promise<QuartoRequirement[]> {
+  const requirements: QuartoRequirement[] = [];
+  const formats = toFormat ? [toFormat] : await declaredFormats(app, file, projectConfig);
+  if (formats.includes('typst')) {
+    requirements.push({ feature: 'Typst output', minVersion: TYPST_MIN_VERSION });
+  }
+
+  const docMeta = parseYamlBlock(frontMatterOf(await app.vault.cachedRead(file)));
+  const projectMeta = projectConfig
+    ? parseYamlBlock(await app.vault.cachedRead(projectConfig))
+    : null;
+  if ([...filterNames(docMeta), ...filterNames(projectMeta)].some((f) => CALLOUT_FILTER_RE.test(f))) {
+    requirements.push({ feature: 'The Obsidian callouts filter', minVersion: CALLOUT_FILTER_MIN_VERSION });
+  }
+  return requirements;
+}
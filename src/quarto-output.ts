@@ -0,0 +1,69 @@
+// --- Quarto output plumbing -----------------------------------------------
+//
+// Node's spawn-stream chunks don't align with line boundaries — a single
+// data event can contain a partial line, and a logical line can be split
+// across two events. Build a per-stream processor that buffers the
+// trailing partial line and only emits whole lines. Call .flush() on the
+// close handler to release any final partial line.
+//
+// logQuartoLine routes a single line to console by severity prefix:
+// "ERROR:" -> console.error, "WARNING:"/"WARN:" -> console.warn,
+// everything else -> console.log. Centralised so both the preview and
+// render paths stay in sync and new prefixes only need handling here;
+// quartoLineSeverity is the same rule for the Quarto log view.
+
+export type QuartoLineSeverity = 'error' | 'warning' | 'info';
+
+export function quartoLineSeverity(line: string): QuartoLineSeverity {
+  if (/^ERROR:/.test(line)) return 'error';
+  if (/^WARN(ING)?:/.test(line)) return 'warning';
+  return 'info';
+}
+
+export function logQuartoLine(prefix: string, line: string): void {
+  const severity = quartoLineSeverity(line);
+  if (severity === 'error') {
+    console.error(`${prefix}: ${line}`);
+  } else if (severity === 'warning') {
+    console.warn(`${prefix}: ${line}`);
+  } else {
+    console.log(`${prefix}: ${line}`);
+  }
+}
+
+export interface LineProcessor {
+  (chunk: string): void;
+  flush(): void;
+}
+
+export function makeLineProcessor(handle: (line: string) => void): LineProcessor {
+  let buffer = '';
+  const proc = ((chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    // Last element is the trailing fragment after the final newline
+    // (or the whole chunk if there was no newline at all). Keep it
+    // for the next chunk.
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line) handle(line);
+    }
+  }) as LineProcessor;
+  proc.flush = () => {
+    if (buffer) {
+      handle(buffer);
+      buffer = '';
+    }
+  };
+  return proc;
+}
+
+const ANSI_ESCAPE_RE = new RegExp(String.fromCharCode(27) + '\\[[0-?]*[ -/]*[@-~]', 'g');
+export function stripAnsiCodes(text: string): string {
+  return text.replace(ANSI_ESCAPE_RE, '');
+}
+
+export function previewUrlFromLine(line: string): string | null {
+  const match = stripAnsiCodes(line).match(/Browse at\s+(https?:\/\/\S+)/);
+  return match?.[1] ?? null;
+}
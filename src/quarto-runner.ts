@@ -0,0 +1,189 @@
+import { ChildProcess, spawn } from 'child_process';
+import { makeLineProcessor, previewUrlFromLine, stripAnsiCodes } from './quarto-output';
+
+// --- Quarto runner --------------------------------------------------------
+//
+// One spawned `quarto` command (preview, render, project render, check)
+// and the plumbing every one of them needs:
+//
+//   - detached spawn, so killProcessTree can signal the whole process
+//     group — `quarto preview` forks a long-lived server and a render forks
+//     knitr / jupyter / lualatex / typst; killing only the wrapper would
+//     orphan them. No process groups on Windows (taskkill /t instead);
+//   - one line processor per stream: chunks do not align with lines, and
+//     a shared buffer would splice stdout and stderr fragments together;
+//   - spawn failures: child_process.spawn does not throw on a missing
+//     binary, it emits 'error' — without a listener an ENOENT was a silent
+//     exit. The runner reports it on the exit event instead;
+//   - exactly one exit event, after the final partial lines are flushed.
+//
+// Callers subscribe to typed events and keep their own policy (notices,
+// diagnostics, which output to open).
+
+export interface QuartoRunOptions {
+  binary: string;
+  args: string[];
+  cwd?: string;
+  env: NodeJS.ProcessEnv;
+}
+
+export interface QuartoExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  // Set when the process never started (ENOENT, EACCES, ...).
+  spawnError: Error | null;
+  // Terminated by SIGTERM / SIGKILL: the plugin's own stop / cancel / unload.
+  cancelled: boolean;
+  // Every "ERROR:" line of the run, in order.
+  errorLines: string[];
+}
+
+export interface QuartoRunnerEvents {
+  // Every non-empty output line, stdout and stderr alike, ANSI codes intact.
+  line: (line: string) => void;
+  // The path from an "Output created:" line, as Quarto printed it
+  // (relative or absolute).
+  output: (reportedPath: string) => void;
+  // The preview server URL from a "Browse at" line.
+  url: (url: string) => void;
+  // An "ERROR:" line (ANSI-stripped).
+  error: (line: string) => void;
+  exit: (exit: QuartoExit) => void;
+}
+
+type Listeners = { [K in keyof QuartoRunnerEvents]: QuartoRunnerEvents[K][] };
+
+// Signal the whole process tree: the process group on POSIX, taskkill /t on
+// Windows. Best-effort — the process may already be gone.
+export function killProcessTree(child: ChildProcess): void {
+  if (child.killed || child.pid === undefined) return;
+  killPidTree(child.pid);
+}
+
+// Same, for a process known only by PID — e.g. a preview recorded before
+// Obsidian last quit. The runner spawns detached, so on POSIX the PID is
+// also the process group ID.
+export function killPidTree(pid: number): void {
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/t', '/f']);
+    return;
+  }
+  try {
+    // Negative PID targets the whole process group.
+    process.kill(-pid, 'SIGTERM');
+  } catch {
+    // Group already gone, or never became a leader — best-effort direct kill.
+    try {
+      process.kill(pid, 'SIGTERM');
+    } catch {
+      /* already dead */
+    }
+  }
+}
+
+// "exit 1", "terminated by SIGHUP" — for notices and the log.
+export function exitLabel(exit: QuartoExit): string {
+  if (exit.spawnError) return `failed to start: ${exit.spawnError.message}`;
+  if (exit.code !== null) return `exit ${exit.code}`;
+  return exit.signal ? `terminated by ${exit.signal}` : 'terminated';
+}
+
+export class QuartoRunner {
+  readonly process: ChildProcess;
+  readonly startedAt = Date.now();
+  // Resolves with the same value as the exit event.
+  readonly exited: Promise<QuartoExit>;
+  private listeners: Listeners = { line: [], output: [], url: [], error: [], exit: [] };
+  private errorLines: string[] = [];
+  private done = false;
+
+  constructor(options: QuartoRunOptions) {
+    let resolveExit!: (exit: QuartoExit) => void;
+    this.exited = new Promise((resolve) => (resolveExit = resolve));
+
+    this.process = spawn(options.binary, options.args, {
+      cwd: options.cwd,
+      env: options.env,
+      detached: process.platform !== 'win32',
+    });
+
+    const stdout = makeLineProcessor((line) => this.handleLine(line));
+    const stderr = makeLineProcessor((line) => this.handleLine(line));
+    this.process.stdout?.on('data', (data: Buffer) => stdout(data.toString()));
+    this.process.stderr?.on('data', (data: Buffer) => stderr(data.toString()));
+
+    const finish = (exit: QuartoExit) => {
+      if (this.done) return;
+      this.done = true;
+      this.emit('exit', exit);
+      resolveExit(exit);
+    };
+
+    this.process.on('error', (err) => {
+      // An 'error' after a successful start (e.g. a failed kill) is not
+      // an exit; 'close' still follows.
+      if (this.process.pid !== undefined) {
+        console.error('[qmd-as-md] Quarto process error:', err);
+        return;
+      }
+      finish({ code: null, signal: null, spawnError: err, cancelled: false, errorLines: this.errorLines });
+    });
+
+    this.process.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      stdout.flush(); // release any final partial line
+      stderr.flush();
+      finish({
+        code,
+        signal,
+        spawnError: null,
+        cancelled: code === null && (signal === 'SIGTERM' || signal === 'SIGKILL'),
+        errorLines: this.errorLines,
+      });
+    });
+  }
+
+  get running(): boolean {
+    return !this.done;
+  }
+
+  on<K extends keyof QuartoRunnerEvents>(event: K, listener: QuartoRunnerEvents[K]): this {
+    this.listeners[event].push(listener);
+    return this;
+  }
+
+  stop(): void {
+    killProcessTree(this.process);
+  }
+
+  private emit<K extends keyof QuartoRunnerEvents>(
+    event: K,
+    ...args: Parameters<QuartoRunnerEvents[K]>
+  ): void {
+    for (const listener of this.listeners[event]) {
+      try {
+        (listener as (...a: Parameters<QuartoRunnerEvents[K]>) => void)(...args);
+      } catch (err) {
+        // One failing subscriber must not starve the others (or swallow
+        // the exit event).
+        console.error(`[qmd-as-md] Quarto runner '${event}' listener failed:`, err);
+      }
+    }
+  }
+
+  private handleLine(line: string): void {
+    this.emit('line', line);
+    const clean = stripAnsiCodes(line);
+    if (/^ERROR:/.test(clean)) {
+      this.errorLines.push(clean);
+      this.emit('error', clean);
+      return;
+    }
+    const output = clean.match(/Output created:\s*(.+?)\s*$/);
+    if (output) {
+      this.emit('output', output[1].trim());
+      return;
+    }
+    const url = previewUrlFromLine(clean);
+    if (url) this.emit('url', url);
+  }
+}
@@ -0,0 +1,98 @@
+import { App, SuggestModal, TFile, parseYaml } from 'obsidian';
+
+// --- Render format picker -------------------------------------------------
+//
+// Quarto documents commonly declare several targets side by side:
+//
+//   format:
+//     html: default
+//     docx: default
+//     typst:
+//       toc: true
+//
+// `format:` may also be a plain string (`format: revealjs`), and a project's
+// _quarto.yml can contribute its own `format:` block that every document in
+// the project inherits. declaredFormats collects the names from both, the
+// document's own first, so "Render Quarto to…" can offer exactly the targets
+// `quarto render --to <fmt>` will accept for this file.
+
+// Front matter is only front matter when --- is the very first line — the
+// same rule the outline scan uses.
+export function frontMatterOf(content: string): string | null {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/);
+  return match ? match[1] : null;
+}
+
+// Parse a YAML block, degrading to null on a syntax error — the render
+// itself reports bad YAML far better than a picker could.
+export function parseYamlBlock(yaml: string | null): Record<string, unknown> | null {
+  if (!yaml) return null;
+  try {
+    const parsed = parseYaml(yaml) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatNames(meta: Record<string, unknown> | null): string[] {
+  const format = meta?.format;
+  if (typeof format === 'string') return [format.trim()].filter(Boolean);
+  if (Array.isArray(format)) return format.filter((f): f is string => typeof f === 'string');
+  if (format && typeof format === 'object') return Object.keys(format);
+  return [];
+}
+
+export async function declaredFormats(
+  app: App,
+  file: TFile,
+  projectConfig: TFile | null
+): Promise<string[]> {
+  const docMeta = parseYamlBlock(frontMatterOf(await app.vault.cachedRead(file)));
+  const projectMeta = projectConfig
+    ? parseYamlBlock(await app.vault.cachedRead(projectConfig))
+    : null;
+  return Array.from(new Set([...formatNames(docMeta), ...formatNames(projectMeta)]));
+}
+
+// A picker entry: one declared format, or the "every format in turn" entry.
+export type FormatChoice = { kind: 'format'; format: string } | { kind: 'all'; formats: string[] };
+
+export class FormatSuggestModal extends SuggestModal<FormatChoice> {
+  private choices: FormatChoice[];
+
+  constructor(
+    app: App,
+    formats: string[],
+    private onChoose: (choice: FormatChoice) => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Render to which format?');
+    this.choices = formats.map((format): FormatChoice => ({ kind: 'format', format }));
+    if (formats.length > 1) {
+      this.choices.push({ kind: 'all', formats });
+    }
+  }
+
+  getSuggestions(query: string): FormatChoice[] {
+    const q = query.toLowerCase();
+    if (!q) return this.choices;
+    return this.choices.filter((c) =>
+      c.kind === 'format' ? c.format.toLowerCase().includes(q) : 'all formats'.includes(q),
+    );
+  }
+
+  renderSuggestion(choice: FormatChoice, el: HTMLElement): void {
+    if (choice.kind === 'format') {
+      el.createEl('div', { text: choice.format });
+      el.createEl('small', { text: `quarto render --to ${choice.format}`, cls: 'qmd-preset-desc' });
+    } else {
+      el.createEl('div', { text: 'All formats' });
+      el.createEl('small', { text: `Render ${choice.formats.join(', ')} in turn`, cls: 'qmd-preset-desc' });
+    }
+  }
+
+  onChooseSuggestion(choice: FormatChoice): void {
+    this.onChoose(choice);
+  }
+}
@@ -0,0 +1,162 @@
+import { App, Modal, TFile, setIcon } from 'obsidian';
+
+// --- Render history -------------------------------------------------------
+//
+// Once its notice fades, a render leaves no trace. Each renderPdf run is
+// recorded per source file in plugin data — when it started, what it
+// rendered to, how long it took, how it ended, every "Output created:" path
+// and the first ERROR: line — newest first and capped per file. The modal
+// lists them with links back to the artefacts and flags a render that took
+// noticeably longer than the previous one of the same kind.
+
+export type RenderHistoryStatus = 'success' | 'failed' | 'cancelled';
+
+export interface RenderHistoryEntry {
+  startedAt: number;
+  label: string; // engine / format label, as in the status bar
+  durationMs: number;
+  status: RenderHistoryStatus;
+  exit: string; // exitLabel(), e.g. "exit 1"
+  // Vault paths, or absolute paths for output written outside the vault.
+  outputs: string[];
+  firstError: string | null;
+}
+
+const ENTRIES_PER_FILE = 20;
+
+// Slower than the previous successful render of the same kind by more than
+// this fraction counts as a regression worth flagging.
+const SLOWER_THRESHOLD = 0.25;
+
+export function addRenderHistory(
+  history: Record<string, RenderHistoryEntry[]>,
+  sourcePath: string,
+  entry: RenderHistoryEntry
+): void {
+  history[sourcePath] = [entry, ...(history[sourcePath] ?? [])].slice(0, ENTRIES_PER_FILE);
+}
+
+// Keep a file's history when it, or a folder above it, is renamed.
+// Returns whether anything moved.
+export function renameRenderHistory(
+  history: Record<string, RenderHistoryEntry[]>,
+  oldPath: string,
+  newPath: string
+): boolean {
+  let changed = false;
+  for (const key of Object.keys(history)) {
+    if (key !== oldPath && !key.startsWith(`${oldPath}/`)) continue;
+    history[newPath + key.slice(oldPath.length)] = history[key];
+    delete history[key];
+    changed = true;
+  }
+  return changed;
+}
+
+// Drop the history of a deleted file, or of every file in a deleted folder.
+export function deleteRenderHistory(history: Record<string, RenderHistoryEntry[]>, deletedPath: string): boolean {
+  let changed = false;
+  for (const key of Object.keys(history)) {
+    if (key !== deletedPath && !key.startsWith(`${deletedPath}/`)) continue;
+    delete history[key];
+    changed = true;
+  }
+  return changed;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+// Change against the next older successful entry with the same label, as a
+// fraction (0.3 = 30% slower). Null when there is nothing to compare with.
+function durationChange(entries: RenderHistoryEntry[], index: number): number | null {
+  const entry = entries[index];
+  if (entry.status !== 'success') return null;
+  const previous = entries
+    .slice(index + 1)
+    .find((e) => e.status === 'success' && e.label === entry.label);
+  if (!previous || previous.durationMs <= 0) return null;
+  return entry.durationMs / previous.durationMs - 1;
+}
+
+const STATUS_ICONS: Record<RenderHistoryStatus, string> = {
+  success: 'check-circle',
+  failed: 'x-circle',
+  cancelled: 'minus-circle',
+};
+
+export class RenderHistoryModal extends Modal {
+  constructor(
+    app: App,
+    private file: TFile,
+    private entries: RenderHistoryEntry[],
+    private onOpenOutput: (outputPath: string) => void,
+    private onClear: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('qmd-history');
+    contentEl.createEl('h3', { text: `Render history: ${this.file.name}` });
+    if (this.entries.length === 0) {
+      contentEl.createEl('p', { cls: 'qmd-history-empty', text: 'No renders recorded yet.' });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: 'qmd-history-list' });
+    this.entries.forEach((entry, index) => {
+      const row = list.createDiv({ cls: 'qmd-history-row' });
+      row.dataset.status = entry.status;
+
+      const header = row.createDiv({ cls: 'qmd-history-header' });
+      const icon = header.createSpan({ cls: 'qmd-history-icon', attr: { 'aria-label': entry.exit } });
+      setIcon(icon, STATUS_ICONS[entry.status]);
+      header.createSpan({
+        cls: 'qmd-history-time',
+        text: new Date(entry.startedAt).toLocaleString(),
+      });
+      header.createSpan({ cls: 'qmd-history-label', text: entry.label });
+      const duration = header.createSpan({
+        cls: 'qmd-history-duration',
+        text: formatDuration(entry.durationMs),
+      });
+      const change = durationChange(this.entries, index);
+      if (change !== null && Math.abs(change) >= 0.05) {
+        duration.appendText(` (${change > 0 ? '+' : ''}${Math.round(change * 100)}%)`);
+        if (change > SLOWER_THRESHOLD) duration.addClass('qmd-history-slower');
+      }
+
+      if (entry.status !== 'success') {
+        row.createDiv({
+          cls: 'qmd-history-error',
+          text: entry.firstError ?? (entry.status === 'cancelled' ? 'Cancelled' : entry.exit),
+        });
+      }
+      for (const output of entry.outputs) {
+        const link = row.createEl('a', { cls: 'qmd-history-output', text: output, href: '#' });
+        link.addEventListener('click', (evt) => {
+          evt.preventDefault();
+          this.onOpenOutput(output);
+        });
+      }
+    });
+
+    const footer = contentEl.createDiv({ cls: 'qmd-history-footer' });
+    const clear = footer.createEl('button', { text: 'Clear history' });
+    clear.addEventListener('click', () => {
+      this.onClear();
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
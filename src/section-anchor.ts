@@ -0,0 +1,66 @@
+import { parseQmdHeadings } from './outline';
+
+// --- Section anchors ------------------------------------------------------
+//
+// The HTML Quarto renders gives every heading an id, so a preview can be
+// scrolled to the section being edited with `<url>#<id>`. An explicit
+// `{#sec-id}` wins; otherwise Pandoc's auto_identifiers derive it from the
+// heading text:
+//
+//   - drop formatting, links and footnotes, keeping the text;
+//   - drop everything but letters, digits, `_`, `-` and `.`;
+//   - spaces become hyphens, letters are lowercased;
+//   - drop everything up to the first letter ("section" when nothing is
+//     left);
+//   - a repeated id gets -1, -2, ... in document order.
+//
+// Headings come from the outline's parseQmdHeadings, so the preview and the
+// outline agree on what is a heading (not a `#` comment in a code cell).
+
+function isLetter(ch: string): boolean {
+  return ch.toLowerCase() !== ch.toUpperCase();
+}
+
+function isIdentifierChar(ch: string): boolean {
+  return isLetter(ch) || /[0-9_.-]/.test(ch);
+}
+
+// Strip the inline Markdown Pandoc would have parsed away.
+function plainText(text: string): string {
+  return text
+    .replace(/\^\[[^\]]*\]|\[\^[^\]]*\]/g, '') // footnotes
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // links and images
+    .replace(/\[([^\]]*)\]\{[^}]*\}/g, '$1') // spans
+    .replace(/`([^`]*)`/g, '$1')
+    // `_` emphasis only at word edges; snake_case stays intact.
+    .replace(/(^|[\s*])_+|_+([\s*]|$)/g, '$1$2');
+}
+
+export function pandocIdentifier(text: string): string {
+  const words = plainText(text)
+    .split(/\s+/)
+    .map((word) => Array.from(word).filter(isIdentifierChar).join(''))
+    .filter(Boolean);
+  const chars = Array.from(words.join('-').toLowerCase());
+  const first = chars.findIndex(isLetter);
+  return first === -1 ? 'section' : chars.slice(first).join('');
+}
+
+// The id of the section the given line is in: the nearest heading at or
+// above it. Null above the first heading.
+export function sectionIdAt(content: string, line: number): string | null {
+  const used = new Set<string>();
+  let current: string | null = null;
+  for (const heading of parseQmdHeadings(content)) {
+    if (heading.line > line) break;
+    let id = heading.id;
+    if (!id) {
+      const base = pandocIdentifier(heading.text);
+      id = base;
+      for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+    }
+    used.add(id);
+    current = id;
+  }
+  return current;
+}
@@ -0,0 +1,71 @@
+import { Editor } from 'obsidian';
+import { parseQmdHeadings } from './outline';
+
+// --- Moving sections ------------------------------------------------------
+//
+// A section runs from its heading to the next heading of the same or a
+// higher level (or the end of the file), so it carries its subsections,
+// prose and code cells with it. Headings come from parseQmdHeadings: a `#`
+// comment inside a code cell or a line of front matter never starts or ends
+// a section. The move is a single editor transaction — one undo puts the
+// section back.
+
+export interface SectionRange {
+  from: number; // heading line
+  to: number; // first line after the section; the line count at the end
+}
+
+// The section whose heading is on `line`, or null when there is none
+// there (the outline is out of date).
+export function sectionRange(content: string, line: number): SectionRange | null {
+  const headings = parseQmdHeadings(content);
+  const index = headings.findIndex((heading) => heading.line === line);
+  if (index === -1) return null;
+  const level = headings[index].level;
+  const next = headings.slice(index + 1).find((heading) => heading.level <= level);
+  return { from: line, to: next ? next.line : content.split('\n').length };
+}
+
+// Offset of the start of `line`; the end of the content past the last line.
+function lineOffset(content: string, line: number): number {
+  let offset = 0;
+  for (let i = 0; i < line; i++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) return content.length;
+    offset = next + 1;
+  }
+  return offset;
+}
+
+// Move the section headed on line `from` so that it starts where line
+// `target` starts now (the line count for the end of the file). Returns
+// false, changing nothing, when there is no section there or the target
+// lies inside the section itself.
+export function moveSection(editor: Editor, from: number, target: number): boolean {
+  const content = editor.getValue();
+  const range = sectionRange(content, from);
+  if (!range || (target >= range.from && target <= range.to)) return false;
+
+  let start = lineOffset(content, range.from);
+  const end = lineOffset(content, range.to);
+  let text = content.slice(start, end);
+  // The last section of a file without a trailing newline: take the
+  // newline before it instead, so neither place ends up with lines run
+  // together.
+  if (!text.endsWith('\n')) {
+    text += '\n';
+    start = Math.max(0, start - 1);
+  }
+  const at = lineOffset(content, target);
+  if (at === content.length && !content.endsWith('\n')) {
+    text = '\n' + text.slice(0, -1);
+  }
+  // Positions in one transaction all refer to the document before it.
+  editor.transaction({
+    changes: [
+      { from: editor.offsetToPos(start), to: editor.offsetToPos(end), text: '' },
+      { from: editor.offsetToPos(at), text },
+    ],
+  });
+  return true;
+}
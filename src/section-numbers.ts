@@ -0,0 +1,96 @@
+import { App, TFile } from 'obsidian';
+import { frontMatterOf, parseYamlBlock } from './render-format';
+
+// --- Section numbers ------------------------------------------------------
+//
+// With `number-sections: true` Quarto prefixes each heading with its number
+// (2, 2.1, 2.1.3, ...). The option may sit at the top level of the
+// document's front matter, under one of its formats (`format: html:
+// number-sections: true`), or in _quarto.yml and the active profile's
+// overlay; the document wins over the profile, the profile over
+// _quarto.yml. As in Pandoc:
+//
+//   - a heading with .unnumbered (or `{-}`) gets no number and does not
+//     count;
+//   - `number-offset` (a number or a list) is added to the numbers shown,
+//     the first entry to the level-1 part, the second to the level-2 part,
+//     ...;
+//   - a level-2 heading with no level-1 heading before it is 0.1.
+//
+// Book chapters are numbered by their place in the book, which one file
+// does not know; only the options above are followed.
+
+export interface SectionNumbering {
+  enabled: boolean;
+  offset: number[];
+}
+
+// The value of `key` in a metadata block: top level first, then the first
+// format that sets it.
+function metaOption(meta: Record<string, unknown> | null, key: string): unknown {
+  if (!meta) return undefined;
+  if (key in meta) return meta[key];
+  const format = meta.format;
+  if (!format || typeof format !== 'object' || Array.isArray(format)) return undefined;
+  for (const options of Object.values(format as Record<string, unknown>)) {
+    if (options && typeof options === 'object' && key in options) {
+      return (options as Record<string, unknown>)[key];
+    }
+  }
+  return undefined;
+}
+
+function parseOffset(value: unknown): number[] | undefined {
+  if (typeof value === 'number') return [value];
+  if (Array.isArray(value)) return value.map((n) => (typeof n === 'number' ? n : 0));
+  return undefined;
+}
+
+// The first of the metadata blocks, most specific first, that sets `key`.
+function firstSet<T>(
+  metas: (Record<string, unknown> | null)[],
+  key: string,
+  read: (value: unknown) => T | undefined
+): T | undefined {
+  for (const meta of metas) {
+    const value = read(metaOption(meta, key));
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+// `content` is the document's live editor text; the config files are read
+// from the vault.
+export async function readSectionNumbering(
+  app: App,
+  content: string,
+  config: TFile | null,
+  profileConfig: TFile | null = null
+): Promise<SectionNumbering> {
+  const metas = [parseYamlBlock(frontMatterOf(content))];
+  if (profileConfig) metas.push(parseYamlBlock(await app.vault.cachedRead(profileConfig)));
+  if (config) metas.push(parseYamlBlock(await app.vault.cachedRead(config)));
+  return {
+    enabled: firstSet(metas, 'number-sections', (v) => (typeof v === 'boolean' ? v : undefined)) ?? false,
+    offset: firstSet(metas, 'number-offset', parseOffset) ?? [],
+  };
+}
+
+// One number per heading, in order; null for unnumbered headings, and for
+// all of them when numbering is off.
+export function sectionNumbers(
+  headings: { level: number; classes: string[] }[],
+  numbering: SectionNumbering
+): (string | null)[] {
+  if (!numbering.enabled) return headings.map(() => null);
+  const counters = [0, 0, 0, 0, 0, 0];
+  return headings.map(({ level, classes }) => {
+    if (classes.includes('unnumbered')) return null;
+    counters[level - 1]++;
+    counters.fill(0, level);
+    return counters
+      .slice(0, level)
+      .map((n, i) => n + (numbering.offset[i] ?? 0))
+      .join('.');
+  });
+}
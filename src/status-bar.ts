@@ -0,0 +1,151 @@
+import { Menu, TFile } from 'obsidian';
+import type QmdAsMdPlugin from './main';
+
+// --- Quarto status bar ----------------------------------------------------
+//
+// Notices are transient: a few minutes after "Quarto preview started" nobody
+// remembers whether the server is still alive. The status bar item shows
+// the Quarto state of the active file — idle, previewing, rendering (with
+// elapsed time) or the last error — and its click menu offers the matching
+// actions. It holds no state of its own: update() reads the plugin's
+// preview / render registries, so it is safe to call as often as needed
+// (main.ts calls it on state changes and once a second for the timer).
+
+type StatusState =
+  | { kind: 'none' }
+  | { kind: 'idle'; file: TFile }
+  | { kind: 'previewing'; file: TFile }
+  | { kind: 'rendering'; file: TFile; startedAt: number }
+  | { kind: 'error'; file: TFile; message: string };
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export class QuartoStatusBar {
+  constructor(
+    private plugin: QmdAsMdPlugin,
+    private el: HTMLElement,
+  ) {
+    el.addClass('qmd-status-bar', 'mod-clickable');
+    el.addEventListener('click', (evt) => this.showMenu(evt));
+  }
+
+  private state(): StatusState {
+    const file = this.plugin.lastActiveQuartoFile;
+    if (!file) return { kind: 'none' };
+    const render = this.plugin.renderJobFor(file);
+    if (render) return { kind: 'rendering', file, startedAt: render.startedAt };
+    if (this.plugin.previewFor(file)) return { kind: 'previewing', file };
+    const error = this.plugin.lastQuartoErrors.get(file.path);
+    if (error) return { kind: 'error', file, message: error };
+    return { kind: 'idle', file };
+  }
+
+  update(): void {
+    const state = this.state();
+    this.el.toggle(state.kind !== 'none');
+    this.el.dataset.state = state.kind;
+    if (state.kind === 'none') return;
+    // "Quarto (draft): …" when a profile is active for the file's project.
+    const profile = this.plugin.activeProfileFor(state.file);
+    const prefix = profile ? `Quarto (${profile})` : 'Quarto';
+    switch (state.kind) {
+      case 'idle':
+        this.el.setText(`${prefix}: idle`);
+        this.el.setAttribute('aria-label', `No Quarto preview or render running for ${state.file.name}`);
+        return;
+      case 'previewing': {
+        const preview = this.plugin.previewFor(state.file);
+        const target = preview?.mode === 'external' ? 'browser' : 'Obsidian';
+        this.el.setText(`${prefix}: previewing (${target})`);
+        this.el.setAttribute('aria-label', preview?.url ?? 'Waiting for the preview server URL…');
+        return;
+      }
+      case 'rendering':
+        this.el.setText(`${prefix}: rendering ${formatElapsed(Date.now() - state.startedAt)}`);
+        this.el.setAttribute('aria-label', `Rendering ${state.file.name}`);
+        return;
+      case 'error':
+        this.el.setText(`${prefix}: error`);
+        this.el.setAttribute('aria-label', state.message);
+        return;
+    }
+  }
+
+  private showMenu(evt: MouseEvent): void {
+    const state = this.state();
+    if (state.kind === 'none') return;
+    const file = state.file;
+    const menu = new Menu();
+
+    const preview = this.plugin.previewFor(file);
+    if (preview) {
+      menu.addItem((item) =>
+        item
+          .setTitle('Stop Quarto preview')
+          .setIcon('square')
+          .onClick(() => void this.plugin.stopPreview(file))
+      );
+      const url = preview.url;
+      if (url) {
+        menu.addItem((item) =>
+          item
+            .setTitle('Open preview URL again')
+            .setIcon('globe')
+            .onClick(() => void this.plugin.openPreviewUrl(url, preview.mode))
+        );
+      }
+    }
+
+    if (state.kind === 'rendering') {
+      menu.addItem((item) =>
+        item
+          .setTitle('Cancel Quarto render')
+          .setIcon('x')
+          .onClick(() => this.plugin.cancelRender(file))
+      );
+    }
+
+    const lastOutput = this.plugin.lastQuartoOutputs.get(file.path);
+    if (lastOutput) {
+      menu.addItem((item) =>
+        item
+          .setTitle(`Open last output (${lastOutput.split('/').pop()})`)
+          .setIcon('file-output')
+          .onClick(() => void this.plugin.openOutput(lastOutput))
+      );
+    }
+
+    if (this.plugin.quartoProjectConfigFor(file)) {
+      menu.addItem((item) =>
+        item
+          .setTitle('Switch Quarto profile')
+          .setIcon('layers')
+          .onClick(() => void this.plugin.switchProfile(file))
+      );
+    }
+
+    if (state.kind === 'error') {
+      menu.addItem((item) =>
+        item
+          .setTitle('Show Quarto diagnostics')
+          .setIcon('alert-triangle')
+          .onClick(() => void this.plugin.activateDiagnosticsView())
+      );
+    }
+
+    if (!preview && state.kind !== 'rendering') {
+      menu.addItem((item) =>
+        item
+          .setTitle('Start Quarto preview')
+          .setIcon('eye')
+          .onClick(() => void this.plugin.startPreview(file))
+      );
+    }
+
+    menu.showAtMouseEvent(evt);
+  }
+}
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+// A stand-in for the `quarto` binary: replays a recorded transcript, chunk
+// by chunk, on stdout and stderr, then exits with the recorded code.
+//
+// The transcript is the JSON file named by FAKE_QUARTO_TRANSCRIPT:
+//
+//   {
+//     "chunks": [{ "stdout": "..." }, { "stderr": "..." }, ...],
+//     "exit": 0            // or "hang": stay alive until signalled
+//   }
+//
+// Chunks are written as they were recorded — a chunk may end mid-line —
+// with a pause between them so each reaches the reader as its own data
+// event.
+import { readFileSync } from 'fs';
+
+const PAUSE_MS = 20;
+
+const transcript = JSON.parse(readFileSync(process.env.FAKE_QUARTO_TRANSCRIPT, 'utf8'));
+
+const write = (stream, data) => new Promise((resolve) => stream.write(data, resolve));
+const pause = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const chunk of transcript.chunks) {
+  if (chunk.stdout !== undefined) await write(process.stdout, chunk.stdout);
+  if (chunk.stderr !== undefined) await write(process.stderr, chunk.stderr);
+  await pause(PAUSE_MS);
+}
+
+if (transcript.exit === 'hang') {
+  // Like a preview server: runs until stopped.
+  setInterval(() => {}, 1000);
+} else {
+  process.exitCode = transcript.exit;
+}
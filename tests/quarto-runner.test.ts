@@ -0,0 +1,132 @@
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { QuartoExit, QuartoRunner } from '../src/quarto-runner';
+
+// QuartoRunner against tests/fixtures/fake-quarto.mjs, which replays the
+// recorded output in tests/fixtures/transcripts/ chunk by chunk — partial
+// lines and stdout / stderr interleaving included — instead of running
+// Quarto.
+
+const FAKE_QUARTO = fileURLToPath(new URL('./fixtures/fake-quarto.mjs', import.meta.url));
+
+function transcript(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/transcripts/${name}.json`, import.meta.url));
+}
+
+interface Recorded {
+  runner: QuartoRunner;
+  // Every event in the order the runner emitted it.
+  events: [string, unknown][];
+}
+
+function run(name: string, binary = FAKE_QUARTO): Recorded {
+  const runner = new QuartoRunner({
+    binary,
+    args: ['render', 'report.qmd', '--to', 'pdf'],
+    env: { ...process.env, FAKE_QUARTO_TRANSCRIPT: transcript(name) },
+  });
+  const events: [string, unknown][] = [];
+  runner
+    .on('line', (line) => events.push(['line', line]))
+    .on('output', (reported) => events.push(['output', reported]))
+    .on('url', (url) => events.push(['url', url]))
+    .on('error', (line) => events.push(['error', line]))
+    .on('exit', (exit) => events.push(['exit', exit]));
+  return { runner, events };
+}
+
+function ofKind(events: [string, unknown][], kind: string): unknown[] {
+  return events.filter(([k]) => k === kind).map(([, value]) => value);
+}
+
+// A little longer than the runner needs, so a second exit event would show.
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('QuartoRunner', () => {
+  it('joins lines split across chunks and reports the created output', async () => {
+    const { runner, events } = run('render-pdf');
+    const exit = await runner.exited;
+
+    expect(exit).toMatchObject({ code: 0, signal: null, spawnError: null, cancelled: false });
+    expect(ofKind(events, 'line')).toEqual([
+      'processing file: report.qmd',
+      '1/3                  ',
+      '2/3 [setup]         ',
+      '3/3                  ',
+      'output file: report.knit.md',
+      'pandoc ',
+      '  to: latex',
+      '  output-file: report.tex',
+      'Rendering PDF',
+      'running lualatex - 1',
+      '\u001b[1mOutput created: \u001b[22mreport.pdf',
+    ]);
+    expect(ofKind(events, 'output')).toEqual(['report.pdf']);
+    expect(ofKind(events, 'error')).toEqual([]);
+  });
+
+  it('keeps stdout and stderr lines apart when they interleave', async () => {
+    const { runner, events } = run('render-error');
+    const exit = await runner.exited;
+
+    // The stderr ERROR: line lands between the two halves of a stdout line
+    // without splicing into it.
+    expect(ofKind(events, 'line')).toEqual([
+      'Rendering PDF',
+      'running xelatex - 1',
+      '\u001b[31mERROR: \u001b[39mcompilation failed- error',
+      '  This is XeTeX, Version 3.141592653',
+      "LaTeX Error: File `fontspec.sty' not found.",
+      'ERROR: Render failed',
+    ]);
+    expect(ofKind(events, 'error')).toEqual(['ERROR: compilation failed- error', 'ERROR: Render failed']);
+    expect(exit).toMatchObject({ code: 1, cancelled: false, spawnError: null });
+    expect(exit.errorLines).toEqual(['ERROR: compilation failed- error', 'ERROR: Render failed']);
+  });
+
+  it('reports the preview URL from a split "Browse at" line', async () => {
+    const { runner, events } = run('preview');
+    const url = await new Promise<string>((resolve) => runner.on('url', resolve));
+    runner.stop();
+    await runner.exited;
+
+    expect(url).toBe('http://localhost:4321/notes.html');
+    expect(ofKind(events, 'output')).toEqual(['notes.html']);
+  });
+
+  it('marks a run stopped with SIGTERM as cancelled', async () => {
+    const { runner, events } = run('preview');
+    await new Promise<string>((resolve) => runner.on('url', resolve));
+    expect(runner.running).toBe(true);
+    runner.stop();
+    const exit = await runner.exited;
+
+    expect(exit).toMatchObject({ code: null, signal: 'SIGTERM', cancelled: true, spawnError: null });
+    expect(runner.running).toBe(false);
+    await settle();
+    expect(ofKind(events, 'exit')).toHaveLength(1);
+  });
+
+  it('reports a missing binary as a spawn error on the exit event', async () => {
+    const { runner, events } = run('render-pdf', '/nonexistent/bin/quarto');
+    const exit = await runner.exited;
+
+    expect(exit.spawnError).toBeInstanceOf(Error);
+    expect((exit.spawnError as NodeJS.ErrnoException).code).toBe('ENOENT');
+    expect(exit).toMatchObject({ code: null, signal: null, cancelled: false });
+    await settle();
+    expect(ofKind(events, 'exit')).toEqual([exit]);
+    expect(ofKind(events, 'line')).toEqual([]);
+  });
+
+  it('emits exactly one exit event, after the final partial line', async () => {
+    const { runner, events } = run('trailing-partial');
+    const exit = await runner.exited;
+    await settle();
+
+    expect(events.map(([kind]) => kind)).toEqual(['line', 'line', 'output', 'exit']);
+    expect(ofKind(events, 'output')).toEqual(['_site/index.html']);
+    expect(ofKind(events, 'exit')).toEqual([exit]);
+    expect((exit as QuartoExit).code).toBe(0);
+  });
+});